@@ -0,0 +1,100 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync } from "node:fs";
+import {
+  errorBody,
+  errorStatus,
+  generateAudio,
+  generateImage,
+  generateKling,
+  generateScript,
+  health,
+  sendJson,
+} from "./routes";
+
+// Proxy opcional: guarda as API keys no servidor e expõe /api/generate/* para o app no modo proxy.
+// As chaves vêm de variáveis de ambiente ou do arquivo .env na raiz (veja .env.example)
+if (existsSync(".env")) process.loadEnvFile(".env");
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// Por padrão só aceita conexões da própria máquina
+const HOST = process.env.PROXY_HOST || "127.0.0.1";
+const TOKEN = process.env.PROXY_TOKEN || "";
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || "http://localhost:8080")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const ROUTES: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  "POST /api/generate/script": generateScript,
+  "POST /api/generate/image": generateImage,
+  "POST /api/generate/audio": generateAudio,
+  "POST /api/generate/kling": generateKling,
+};
+
+function setCors(req: IncomingMessage, res: ServerResponse) {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return;
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Expose-Headers", "Retry-After, Character-Cost");
+}
+
+const authorized = (req: IncomingMessage) => !TOKEN || req.headers.authorization === `Bearer ${TOKEN}`;
+
+// Sem CORS o navegador só esconde a resposta: uma página qualquer ainda consegue disparar a chamada e gastar as chaves
+const allowedOrigin = (req: IncomingMessage) => !req.headers.origin || ALLOWED_ORIGINS.includes(req.headers.origin);
+
+// Exigir JSON força o preflight em chamadas de outras origens; text/plain passaria direto
+const isJson = (req: IncomingMessage) => req.headers["content-type"]?.split(";")[0].trim().toLowerCase() === "application/json";
+
+const server = createServer(async (req, res) => {
+  setCors(req, res);
+  if (!allowedOrigin(req)) {
+    sendJson(res, 403, { error: { message: "Origem não autorizada no proxy", type: "proxy_origin" } });
+    return;
+  }
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (!authorized(req)) {
+    sendJson(res, 401, { error: { message: "Token do proxy inválido", type: "proxy_token" } });
+    return;
+  }
+
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (req.method === "GET" && path === "/api/health") {
+    health(res);
+    return;
+  }
+  const route = ROUTES[`${req.method} ${path}`];
+  if (!route) {
+    sendJson(res, 404, { error: { message: "Rota não encontrada" } });
+    return;
+  }
+
+  if (req.method === "POST" && !isJson(req)) {
+    sendJson(res, 415, { error: { message: "Envie o corpo como application/json" } });
+    return;
+  }
+
+  try {
+    await route(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      // Stream já começou: só resta interromper a resposta
+      res.destroy();
+      return;
+    }
+    if (errorStatus(error) >= 500) console.error(`[proxy] ${path}`, error);
+    sendJson(res, errorStatus(error), errorBody(error));
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`[proxy] ouvindo em http://${HOST}:${PORT} (origens permitidas: ${ALLOWED_ORIGINS.join(", ")})`);
+  if (!TOKEN) console.warn("[proxy] PROXY_TOKEN vazio: qualquer processo desta máquina pode usar as chaves. Defina um token no .env");
+});
@@ -0,0 +1,153 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { AI_PROVIDERS, AIProvider, GenerationRequest } from "@/types/ai-providers";
+import { ELEVENLABS_PROVIDER, KLING_PROVIDER, LEONARDO_PROVIDER } from "@/lib/service-providers";
+import { ProviderError } from "@/lib/provider-errors";
+import { getModel } from "@/lib/generation-params";
+import { GenerateImageOptions, requestLeonardoImage } from "@/components/images/LeonardoImageService";
+import { GenerateSpeechOptions, requestElevenLabsSpeech } from "@/components/audio/ElevenLabsService";
+import { KlingRequest, requestKling } from "@/components/images/KlingService";
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// Headers do provider que o navegador precisa ler: tipo do conteúdo, espera sugerida e consumo da ElevenLabs
+const RELAYED_HEADERS = ["content-type", "retry-after", "character-cost"];
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly type = "proxy_error") {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface ScriptBody {
+  provider: string;
+  request: GenerationRequest;
+}
+
+// Cada provider lê a chave da variável de ambiente com o nome da chave em maiúsculas (openai_api_key → OPENAI_API_KEY)
+export const envName = (provider: AIProvider) => provider.keyName.toUpperCase();
+
+export const SUPPORTED_PROVIDERS = [...AI_PROVIDERS, LEONARDO_PROVIDER, KLING_PROVIDER, ELEVENLABS_PROVIDER];
+
+// Só criação e consulta de tarefas de imagem e de image-to-video; a chave não serve para o resto da API
+const KLING_PATH = /^\/v1\/(?:images\/generations|videos\/image2video)(\/[\w-]+)?$/;
+
+function serverKey(provider: AIProvider): string {
+  const key = process.env[envName(provider)];
+  // O tipo missing_api_key faz o navegador tratar a falta de chave como erro de autenticação
+  if (!key) throw new HttpError(401, `API key do ${provider.name} não configurada no proxy (${envName(provider)})`, "missing_api_key");
+  return key;
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Requisição grande demais");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Corpo da requisição não é JSON");
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+// Repassa status, headers relevantes e corpo (inclusive SSE) do provider sem interpretar nada
+async function relay(upstream: Response, res: ServerResponse) {
+  const headers: Record<string, string> = {};
+  for (const name of RELAYED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  res.writeHead(upstream.status, headers);
+  const reader = upstream.body?.getReader();
+  for (let chunk = await reader?.read(); chunk && !chunk.done; chunk = await reader.read()) {
+    res.write(chunk.value);
+  }
+  res.end();
+}
+
+// Cancela a chamada ao provider quando o navegador desiste da requisição
+function abortOnClose(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+export function health(res: ServerResponse) {
+  sendJson(res, 200, { keys: SUPPORTED_PROVIDERS.filter((p) => process.env[envName(p)]).map((p) => p.keyName) });
+}
+
+export async function generateScript(req: IncomingMessage, res: ServerResponse) {
+  const { provider: id, request } = await readJson<ScriptBody>(req);
+  // Só os providers embutidos: os personalizados apontam para endpoints que o servidor não conhece
+  const provider = AI_PROVIDERS.find((p) => p.id === id);
+  if (!provider?.adapter) throw new HttpError(400, `Provider ${id} não suportado pelo proxy`);
+  // A chave do servidor só vale para os modelos conhecidos, e o id do modelo chega a entrar na URL (Gemini)
+  const model = getModel(provider, request?.params?.model);
+  if (!model) throw new HttpError(400, `Modelo não suportado pelo proxy: ${request?.params?.model}`);
+  const requested = Math.floor(Number(request.params.maxTokens));
+  const maxTokens = requested > 0 ? Math.min(requested, model.maxOutputTokens) : model.maxOutputTokens;
+  const { url, headers, body } = provider.adapter.buildRequest(serverKey(provider), {
+    ...request,
+    params: { ...request.params, model: model.id, maxTokens },
+  });
+  const upstream = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal: abortOnClose(res),
+  });
+  await relay(upstream, res);
+}
+
+export async function generateImage(req: IncomingMessage, res: ServerResponse) {
+  const options = await readJson<GenerateImageOptions>(req);
+  let credits: number | undefined;
+  const url = await requestLeonardoImage(
+    serverKey(LEONARDO_PROVIDER),
+    { ...options, signal: abortOnClose(res) },
+    (cost) => (credits = cost)
+  );
+  sendJson(res, 200, { url, credits });
+}
+
+export async function generateAudio(req: IncomingMessage, res: ServerResponse) {
+  const options = await readJson<GenerateSpeechOptions>(req);
+  const upstream = await requestElevenLabsSpeech(serverKey(ELEVENLABS_PROVIDER), {
+    ...options,
+    signal: abortOnClose(res),
+  });
+  await relay(upstream, res);
+}
+
+// O navegador faz o polling; cada chamada aqui cria a tarefa (com corpo) ou consulta uma existente (sem corpo)
+export async function generateKling(req: IncomingMessage, res: ServerResponse) {
+  const { path, body } = await readJson<KlingRequest>(req);
+  const match = typeof path === "string" ? KLING_PATH.exec(path) : null;
+  const poll = Boolean(match?.[1]);
+  if (!match || poll === (body !== undefined)) throw new HttpError(400, `Rota da Kling não suportada pelo proxy: ${path}`);
+  const upstream = await requestKling(serverKey(KLING_PROVIDER), { path, body }, abortOnClose(res));
+  await relay(upstream, res);
+}
+
+// Erros do provider voltam com o status original, para o navegador classificar como faria numa chamada direta
+export function errorStatus(error: unknown): number {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof ProviderError && error.status) return error.status;
+  return 502;
+}
+
+export function errorBody(error: unknown) {
+  if (error instanceof HttpError) return { error: { message: error.message, type: error.type } };
+  if (error instanceof ProviderError) return { error: { message: error.details ?? error.message } };
+  return { error: { message: error instanceof Error ? error.message : "Erro desconhecido no proxy" } };
+}
@@ -2,9 +2,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
+import Projects from "./pages/Projects";
+import ProjectEditor from "./pages/ProjectEditor";
+import KeySettings from "./pages/KeySettings";
 import NotFound from "./pages/NotFound";
+import { KeyVaultDialog } from "@/components/vault/KeyVaultDialog";
+import { ScriptGenerator } from "@/components/ScriptGenerator";
+import { ImagesStage } from "@/components/project/ImagesStage";
+import { AudioStage } from "@/components/project/AudioStage";
+import { ExportStage } from "@/components/project/ExportStage";
 
 const queryClient = new QueryClient();
 
@@ -15,9 +23,19 @@ const App = () => {
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <KeyVaultDialog />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/projects" element={<Projects />} />
+          <Route path="/projects/:id" element={<ProjectEditor />}>
+            <Route index element={<Navigate to="script" replace />} />
+            <Route path="script" element={<ScriptGenerator />} />
+            <Route path="images" element={<ImagesStage />} />
+            <Route path="audio" element={<AudioStage />} />
+            <Route path="export" element={<ExportStage />} />
+          </Route>
+          <Route path="/settings/keys" element={<KeySettings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
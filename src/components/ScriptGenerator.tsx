@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useReducer, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,103 +6,406 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, Play, Download, Settings } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Play, Download, Settings, Square, FileText, Pencil, Eye, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { AI_PROVIDERS, AIProvider, ScriptData } from "@/types/ai-providers";
+import { useProject } from "@/hooks/use-project";
+import { AI_PROVIDERS, AIProvider, GenerationParams } from "@/types/ai-providers";
+import { OutlineSection, LongFormSection, Script, isLongForm } from "@/types/script";
+import {
+  formatTimestamp,
+  parseScript,
+  previewPartialScript,
+  renderScript,
+  scriptDuration,
+  scriptFromLongForm,
+} from "@/lib/script-document";
+import { loadGenerationParams, saveGenerationParams } from "@/lib/generation-params";
+import { buildFallbackChain, loadFallbackSettings } from "@/lib/provider-fallback";
+import { describeError } from "@/lib/provider-errors";
+import { httpRequest } from "@/lib/http-client";
+import { formatCount, formatUsd } from "@/lib/usage-cost";
+import { hasApiKey, readApiKey, withApiKey } from "@/lib/api-keys";
+import { YOUTUBE_PROVIDER } from "@/lib/service-providers";
+import { VIDEO_STYLES, resolveTemplate } from "@/lib/prompt-templates";
+import { SCRIPT_LANGUAGES, textDirection } from "@/lib/languages";
+import { MAIN_BRANCH, NewScriptVersion, ScriptVersion, nextBranchName, recordVersion } from "@/lib/script-versions";
 import { APIKeyModal } from "@/components/ai/APIKeyModal";
 import { ProviderSelector } from "@/components/ai/ProviderSelector";
+import { GenerationSettings } from "@/components/ai/GenerationSettings";
+import { LongFormSections } from "@/components/ai/LongFormSections";
+import { CompareProviders } from "@/components/ai/CompareProviders";
+import { FallbackSettings } from "@/components/ai/FallbackSettings";
+import { PromptTemplateEditor } from "@/components/ai/PromptTemplateEditor";
+import { ChannelProfileSelector } from "@/components/ai/ChannelProfileSelector";
+import { getProviders } from "@/components/ai/ProviderRegistry";
 import { ScriptGeneratorAPI } from "@/components/ai/ScriptGeneratorAPI";
-import { ImageGenerationSection } from "@/components/images/ImageGenerationSection";
-import { AudioGenerationSection } from "@/components/audio/AudioGenerationSection";
-import { CombinedSection } from "@/components/combined/CombinedSection";
+import { TranslationSection } from "@/components/translation/TranslationSection";
+import { ScriptEditor } from "@/components/editor/ScriptEditor";
+import { VersionHistory } from "@/components/history/VersionHistory";
+import { UsageLedger } from "@/components/usage/UsageLedger";
+
+// Edições manuais viram uma versão depois de alguns segundos sem digitar
+const EDIT_VERSION_DELAY_MS = 3000;
+
+interface GenerationTarget {
+  provider: AIProvider;
+  apiKey: string;
+  params: GenerationParams;
+}
 
 export const ScriptGenerator = () => {
   console.log("ScriptGenerator component is rendering");
+  const {
+    project,
+    name,
+    scriptData,
+    setScriptData,
+    script: scriptDocument,
+    setScript: setScriptDocument,
+    headVersion,
+    setHeadVersion,
+    translations,
+    setTranslations,
+    setAudioLanguage,
+    setBusy,
+  } = useProject();
+  const navigate = useNavigate();
   const [selectedProvider, setSelectedProvider] = useState<AIProvider>(AI_PROVIDERS[0]);
-  const [scriptData, setScriptData] = useState<ScriptData>({
-    topic: "",
-    duration: "",
-    style: "",
-    styleKeywords: "",
-    language: "",
-    niche: "",
-    subniche: "",
-    microniche: "",
-    nanoniche: "",
-    audience: "",
-    additionalInfo: "",
-    youtubeLink: "",
-    qualified: false,
-  });
-  const [generatedScript, setGeneratedScript] = useState("");
+  const [generationParams, setGenerationParams] = useState<GenerationParams>(() => loadGenerationParams(AI_PROVIDERS[0]));
+  const [generatedScript, setGeneratedScript] = useState(() => (scriptDocument ? renderScript(scriptDocument) : ""));
+  const [sections, setSections] = useState<LongFormSection[]>([]);
+  const [scriptSource, setScriptSource] = useState<AIProvider | null>(null);
+  const [failedProviders, setFailedProviders] = useState<AIProvider[]>([]);
+  const [compareMode, setCompareMode] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showAPIModal, setShowAPIModal] = useState(false);
   const [showYTModal, setShowYTModal] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Templates e perfis de canal ficam no localStorage; força nova renderização quando são alterados
+  const [, refreshStoredSettings] = useReducer((n: number) => n + 1, 0);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingEditRef = useRef<{ timer: number; save: () => void } | null>(null);
   const { toast } = useToast();
 
-  const generateScript = async () => {
-    const apiKey = localStorage.getItem(selectedProvider.keyName);
-    
-    if (!apiKey) {
-      setShowAPIModal(true);
-      return;
-    }
+  const changeProvider = (provider: AIProvider) => {
+    setSelectedProvider(provider);
+    setGenerationParams(loadGenerationParams(provider));
+  };
 
-    if (!scriptData.topic || !scriptData.duration || !scriptData.style) {
-      toast({
-        title: "Campos obrigatórios",
-        description: "Preencha pelo menos o tópico, duração e estilo do vídeo.",
-        variant: "destructive",
+  const changeGenerationParams = (params: GenerationParams) => {
+    setGenerationParams(params);
+    saveGenerationParams(selectedProvider, params);
+  };
+
+  useEffect(() => {
+    setBusy(isLoading);
+    return () => setBusy(false);
+  }, [isLoading, setBusy]);
+
+  // Trocar de etapa interrompe a geração e grava a edição ainda pendente
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      const pending = pendingEditRef.current;
+      if (!pending) return;
+      window.clearTimeout(pending.timer);
+      pending.save();
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!sections.length) return;
+    const script = scriptFromLongForm(sections);
+    setScriptDocument(script);
+    setGeneratedScript(renderScript(script));
+  }, [sections, setScriptDocument]);
+
+  // O texto exibido é sempre uma renderização do documento estruturado
+  const applyScript = (script: Script) => {
+    setScriptDocument(script);
+    setGeneratedScript(renderScript(script));
+  };
+
+  // Novas versões continuam o ramo da versão atual, salvo quando uma ramificação é criada
+  const saveVersion = (
+    script: Script,
+    origin: NewScriptVersion["origin"],
+    source: Pick<NewScriptVersion, "provider" | "model">,
+    extra: Partial<NewScriptVersion> = {}
+  ) => {
+    const version = recordVersion({
+      origin,
+      script,
+      scriptData,
+      parentId: headVersion?.id,
+      branch: headVersion?.branch ?? MAIN_BRANCH,
+      ...source,
+      ...extra,
+    });
+    setHeadVersion(version);
+  };
+
+  // Grava a edição pendente antes de qualquer ação que troque o roteiro
+  const flushEdit = () => {
+    const pending = pendingEditRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingEditRef.current = null;
+    pending.save();
+  };
+
+  const editScript = (script: Script) => {
+    applyScript(script);
+    if (pendingEditRef.current) window.clearTimeout(pendingEditRef.current.timer);
+    const save = () =>
+      saveVersion(script, "edit", {
+        provider: headVersion?.provider ?? scriptSource?.name ?? selectedProvider.name,
+        model: headVersion?.model ?? generationParams.model,
       });
-      return;
+    pendingEditRef.current = {
+      save,
+      timer: window.setTimeout(() => {
+        pendingEditRef.current = null;
+        save();
+      }, EDIT_VERSION_DELAY_MS),
+    };
+  };
+
+  const openVersion = (version: ScriptVersion) => {
+    setSections([]);
+    setScriptData(version.scriptData);
+    applyScript(version.script);
+    setScriptSource(null);
+    setFailedProviders([]);
+  };
+
+  // Restaurar traz a versão de volta como a mais recente do ramo atual
+  const restoreVersion = (version: ScriptVersion) => {
+    flushEdit();
+    openVersion(version);
+    saveVersion(version.script, "restore", { provider: version.provider, model: version.model }, {
+      scriptData: version.scriptData,
+      note: `restaurada de ${new Date(version.timestamp).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}`,
+    });
+    toast({ title: "Versão restaurada" });
+  };
+
+  // Ramificar parte da versão escolhida; as próximas versões seguem no novo ramo
+  const branchVersion = (version: ScriptVersion) => {
+    flushEdit();
+    openVersion(version);
+    const branch = nextBranchName();
+    saveVersion(version.script, "branch", { provider: version.provider, model: version.model }, {
+      scriptData: version.scriptData,
+      parentId: version.id,
+      branch,
+    });
+    toast({ title: "Ramo criado", description: `As próximas alterações ficam em "${branch}".` });
+  };
+
+  const paramsFor = (provider: AIProvider) =>
+    provider.id === selectedProvider.id ? generationParams : loadGenerationParams(provider);
+
+  // Nulo quando falta a chave ou o cofre continua bloqueado
+  const getApiKey = async (): Promise<string | null> => {
+    if (!hasApiKey(selectedProvider)) {
+      setShowAPIModal(true);
+      return null;
     }
+    return readApiKey(selectedProvider).catch(() => null);
+  };
 
+  // Controla loading, cancelamento e mensagens comuns a todas as gerações; a tarefa retorna o provider usado
+  const runGeneration = async (task: (signal: AbortSignal) => Promise<AIProvider>) => {
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const interrupted = () =>
+      toast({ title: "Geração interrompida", description: "O texto recebido até agora foi mantido." });
 
     try {
-      const script = await ScriptGeneratorAPI.generateScript(selectedProvider, scriptData, apiKey);
-      setGeneratedScript(script);
+      const provider = await task(controller.signal);
+      // A tarefa pode terminar depois do Parar (por exemplo, com o último pedaço já recebido)
+      if (controller.signal.aborted) {
+        interrupted();
+        return;
+      }
 
       toast({
         title: "Roteiro gerado!",
-        description: `Roteiro criado com sucesso usando ${selectedProvider.name}.`,
+        description: `Roteiro criado com sucesso usando ${provider.name}.`,
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        interrupted();
+        return;
+      }
       console.error("Erro:", error);
+      toast({ ...describeError(error), variant: "destructive" });
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const updateSection = (index: number, update: (section: LongFormSection) => Partial<LongFormSection>) => {
+    setSections((prev) => prev.map((s, i) => (i === index ? { ...s, ...update(s) } : s)));
+  };
+
+  const generateSection = async (
+    target: GenerationTarget,
+    outline: OutlineSection[],
+    index: number,
+    previousContent: string | undefined,
+    signal: AbortSignal
+  ): Promise<string> => {
+    updateSection(index, () => ({ content: "", status: "generating", error: undefined }));
+    try {
+      const content = await ScriptGeneratorAPI.streamSection(target.provider, scriptData, target.apiKey, {
+        outline,
+        index,
+        previousContent,
+        signal,
+        params: target.params,
+        onChunk: (chunk) => updateSection(index, (s) => ({ content: s.content + chunk })),
+      });
+      updateSection(index, () => ({ status: "done" }));
+      return content;
+    } catch (error) {
+      updateSection(index, () =>
+        signal.aborted ? { status: "pending" } : { status: "error", error: describeError(error).title }
+      );
+      throw error;
+    }
+  };
+
+  const generateLongForm = (target: GenerationTarget, signal: AbortSignal): Promise<Script> =>
+    ScriptGeneratorAPI.generateLongForm(target.provider, scriptData, target.apiKey, {
+      params: target.params,
+      signal,
+      onOutline: (outline) => setSections(outline.map((s) => ({ ...s, content: "", status: "pending" }))),
+      generateSection: (outline, index, previousContent) => generateSection(target, outline, index, previousContent, signal),
+    });
+
+  const generateWith = async (target: GenerationTarget, signal: AbortSignal): Promise<Script> => {
+    setGeneratedScript("");
+    setScriptDocument(null);
+    setSections([]);
+
+    if (isLongForm(scriptData.duration)) {
+      return generateLongForm(target, signal);
+    }
+    // A resposta é JSON: a prévia mostra só o texto dos campos já recebidos
+    let received = "";
+    const raw = await ScriptGeneratorAPI.streamScript(target.provider, scriptData, target.apiKey, {
+      signal,
+      params: target.params,
+      onChunk: (chunk) => {
+        received += chunk;
+        setGeneratedScript(previewPartialScript(received));
+      },
+    });
+    const script = parseScript(raw);
+    applyScript(script);
+    return script;
+  };
+
+  const generateScript = async () => {
+    if ((await getApiKey()) === null) return;
+
+    if (!scriptData.topic || !scriptData.duration || !scriptData.style) {
       toast({
-        title: "Erro ao gerar roteiro",
-        description: `Verifique sua API key do ${selectedProvider.name} e tente novamente.`,
+        title: "Campos obrigatórios",
+        description: "Preencha pelo menos o tópico, duração e estilo do vídeo.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
+      return;
     }
+
+    flushEdit();
+    setScriptSource(null);
+    setFailedProviders([]);
+    const chain = buildFallbackChain(selectedProvider, getProviders(), loadFallbackSettings());
+
+    await runGeneration(async (signal) => {
+      const { result, provider, failures } = await ScriptGeneratorAPI.withFallback(
+        chain,
+        (provider, key) => generateWith({ provider, apiKey: key, params: paramsFor(provider) }, signal),
+        {
+          signal,
+          onFallback: (failed, next, error) =>
+            toast({
+              title: `${failed.name}: ${describeError(error).title}`,
+              description: `Tentando novamente com ${next.name}...`,
+            }),
+        }
+      );
+      setScriptSource(provider);
+      setFailedProviders(failures.map((f) => f.provider));
+      saveVersion(result, "generation", { provider: provider.name, model: paramsFor(provider).model });
+      return provider;
+    });
+  };
+
+  const regenerateSection = async (index: number) => {
+    if ((await getApiKey()) === null) return;
+
+    flushEdit();
+    await runGeneration(async (signal) => {
+      const content = await withApiKey(selectedProvider, (apiKey) =>
+        generateSection(
+          { provider: selectedProvider, apiKey, params: generationParams },
+          sections,
+          index,
+          sections[index - 1]?.content,
+          signal
+        )
+      );
+      const script = scriptFromLongForm(sections.map((s, i) => (i === index ? { ...s, content } : s)));
+      saveVersion(script, "generation", { provider: selectedProvider.name, model: generationParams.model }, {
+        note: `seção ${index + 1} regenerada`,
+      });
+      return selectedProvider;
+    });
   };
 
-  const downloadScript = () => {
+  const promoteScript = (script: Script, provider: AIProvider) => {
+    flushEdit();
+    setSections([]);
+    applyScript(script);
+    saveVersion(script, "generation", { provider: provider.name, model: loadGenerationParams(provider).model }, {
+      note: "escolhida na comparação",
+    });
+    setScriptSource(provider);
+    setFailedProviders([]);
+    toast({ title: "Roteiro selecionado", description: `Usando o roteiro gerado por ${provider.name}.` });
+  };
+
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const downloadScript = (format: "txt" | "json") => {
     if (!generatedScript) return;
 
-    const blob = new Blob([generatedScript], { type: "text/plain" });
+    const blob = format === "json"
+      ? new Blob([JSON.stringify(scriptDocument, null, 2)], { type: "application/json" })
+      : new Blob([generatedScript], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `roteiro-${scriptData.topic.replace(/\s+/g, "-")}-${selectedProvider.id}.txt`;
+    a.download = `roteiro-${scriptData.topic.replace(/\s+/g, "-")}-${selectedProvider.id}.${format}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  // Integração com YouTube Data API
-  const YOUTUBE_PROVIDER: AIProvider = {
-    id: 'youtube',
-    name: 'YouTube Data API',
-    icon: '▶️',
-    endpoint: 'https://www.googleapis.com/youtube/v3',
-    keyName: 'youtube_api_key',
-    getApiKeyUrl: 'https://console.cloud.google.com/apis/credentials'
-  };
-
   const parseYouTubeId = (url: string): string | null => {
     try {
       const u = new URL(url);
@@ -140,7 +443,7 @@ export const ScriptGenerator = () => {
   };
 
   const fetchYouTubeData = async () => {
-    const key = localStorage.getItem(YOUTUBE_PROVIDER.keyName);
+    const key = hasApiKey(YOUTUBE_PROVIDER) ? await readApiKey(YOUTUBE_PROVIDER).catch(() => "") : "";
     if (!key) {
       setShowYTModal(true);
       toast({ title: 'API do YouTube necessária', description: 'Cole sua API key do YouTube para buscar dados.' });
@@ -157,7 +460,9 @@ export const ScriptGenerator = () => {
       return;
     }
     try {
-      const res = await fetch(`${YOUTUBE_PROVIDER.endpoint}/videos?part=snippet,contentDetails,statistics&id=${id}&key=${key}`);
+      const res = await httpRequest(`${YOUTUBE_PROVIDER.endpoint}/videos?part=snippet,contentDetails,statistics&id=${id}&key=${key}`, {
+        timeoutMs: 15000,
+      });
       if (!res.ok) throw new Error(String(res.status));
       const data = await res.json();
       const item = data.items?.[0];
@@ -174,9 +479,15 @@ export const ScriptGenerator = () => {
     }
   };
 
+  // Evita que o editor e as traduções reprocessem o roteiro a cada chunk recebido
+  const completedDocument = isLoading ? null : scriptDocument;
+  const estimate = scriptData.duration
+    ? ScriptGeneratorAPI.estimateUsage(selectedProvider, scriptData, generationParams)
+    : null;
+
   console.log("ScriptGenerator about to render JSX");
   return (
-    <div className="min-h-screen bg-gradient-dark p-6">
+    <div className="p-6">
       <div className="max-w-6xl mx-auto space-y-6">
         {/* Header */}
         <div className="text-center space-y-4">
@@ -202,10 +513,23 @@ export const ScriptGenerator = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <ProviderSelector 
-                selectedProvider={selectedProvider}
-                onProviderChange={setSelectedProvider}
-              />
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="flex-1 min-w-[220px]">
+                  <ProviderSelector 
+                    selectedProvider={selectedProvider}
+                    onProviderChange={changeProvider}
+                  />
+                </div>
+                <div className="flex-1 min-w-[220px]">
+                  <ChannelProfileSelector onChange={refreshStoredSettings} />
+                </div>
+                <GenerationSettings
+                  provider={selectedProvider}
+                  params={generationParams}
+                  onChange={changeGenerationParams}
+                />
+                <FallbackSettings />
+              </div>
 
               <div>
                 <Label htmlFor="topic">Tópico do Vídeo *</Label>
@@ -260,26 +584,11 @@ export const ScriptGenerator = () => {
                       <SelectValue placeholder="Estilo" />
                     </SelectTrigger>
                     <SelectContent className="bg-card border-border">
-                      <SelectItem value="vlog-pessoal">Vlog Pessoal</SelectItem>
-                      <SelectItem value="tutorial">Tutorial / How-To</SelectItem>
-                      <SelectItem value="educacional">Educacional / Explicativo</SelectItem>
-                      <SelectItem value="documentario">Documentário Curto</SelectItem>
-                      <SelectItem value="top-10">Top 10 / Listas</SelectItem>
-                      <SelectItem value="experimentos">Experimentos</SelectItem>
-                      <SelectItem value="opiniao">Opinião / Comentário</SelectItem>
-                      <SelectItem value="reacao">Reação (React)</SelectItem>
-                      <SelectItem value="estudo-caso">Estudo de Caso</SelectItem>
-                      <SelectItem value="desafio">Desafio</SelectItem>
-                      <SelectItem value="analise-tecnica">Análise Técnica / Gráfica</SelectItem>
-                      <SelectItem value="tecnologia">Tecnologia e Gadgets</SelectItem>
-                      <SelectItem value="entrevistas">Entrevistas / Podcast</SelectItem>
-                      <SelectItem value="curiosidades">Curiosidades / Fatos Rápidos</SelectItem>
-                      <SelectItem value="motivacional">Motivacional / Mentalidade</SelectItem>
-                      <SelectItem value="comparativo">Comparativo</SelectItem>
-                      <SelectItem value="misterios">Mistérios e Teorias</SelectItem>
-                      <SelectItem value="turismo">Turismo / Viagens</SelectItem>
-                      <SelectItem value="ferramentas">Ferramentas / Dicas Práticas</SelectItem>
-                      <SelectItem value="humor">Humor / Paródia / Satírico</SelectItem>
+                      {VIDEO_STYLES.map((style) => (
+                        <SelectItem key={style.value} value={style.value}>
+                          {style.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -309,18 +618,11 @@ export const ScriptGenerator = () => {
                     <SelectValue placeholder="Selecione o idioma" />
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border">
-                    <SelectItem value="pt-br">Português (Brasil)</SelectItem>
-                    <SelectItem value="en">Inglês</SelectItem>
-                    <SelectItem value="es">Espanhol</SelectItem>
-                    <SelectItem value="fr">Francês</SelectItem>
-                    <SelectItem value="de">Alemão</SelectItem>
-                    <SelectItem value="it">Italiano</SelectItem>
-                    <SelectItem value="ja">Japonês</SelectItem>
-                    <SelectItem value="ko">Coreano</SelectItem>
-                    <SelectItem value="zh">Chinês (Mandarim)</SelectItem>
-                    <SelectItem value="ru">Russo</SelectItem>
-                    <SelectItem value="ar">Árabe</SelectItem>
-                    <SelectItem value="hi">Hindi</SelectItem>
+                    {SCRIPT_LANGUAGES.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -345,7 +647,7 @@ export const ScriptGenerator = () => {
                   </Button>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {localStorage.getItem('youtube_api_key') ? 'API key do YouTube configurada' : 'Configure a API key do YouTube para buscar dados.'}
+                  {hasApiKey(YOUTUBE_PROVIDER) ? 'API key do YouTube configurada' : 'Configure a API key do YouTube para buscar dados.'}
                 </p>
               </div>
 
@@ -407,6 +709,11 @@ export const ScriptGenerator = () => {
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <Label htmlFor="compareMode">Comparar providers lado a lado</Label>
+                <Switch id="compareMode" checked={compareMode} onCheckedChange={setCompareMode} />
+              </div>
+
               <div>
                 <Label htmlFor="audience">Público-alvo</Label>
                 <Input
@@ -432,75 +739,177 @@ export const ScriptGenerator = () => {
                 />
               </div>
 
-              <Button
-                onClick={generateScript}
-                disabled={isLoading}
-                className="w-full bg-primary hover:bg-primary/90"
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Gerando...
-                  </>
-                ) : (
-                  <>
-                    <Play className="w-4 h-4 mr-2" />
-                    Gerar Roteiro
-                  </>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground truncate">
+                  Template do prompt: {resolveTemplate(scriptData.style, scriptData.language).name}
+                </span>
+                <Button type="button" variant="outline" size="sm" onClick={() => setShowTemplates(true)}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Editar templates
+                </Button>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={generateScript}
+                  disabled={isLoading}
+                  className="flex-1 bg-primary hover:bg-primary/90"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Gerando...
+                    </>
+                  ) : (
+                    <>
+                      <Play className="w-4 h-4 mr-2" />
+                      Gerar Roteiro
+                    </>
+                  )}
+                </Button>
+                {isLoading && (
+                  <Button variant="outline" onClick={stopGeneration}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Parar
+                  </Button>
                 )}
-              </Button>
+              </div>
+              {estimate && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Estimativa: ~{formatCount(estimate.promptTokens)} tokens de entrada e ~{formatCount(estimate.completionTokens)} de saída
+                  {estimate.calls > 1 && ` em ${estimate.calls} chamadas`} · ≈ {formatUsd(estimate.costUsd)} com {generationParams.model}
+                </p>
+              )}
             </CardContent>
           </Card>
 
+          {compareMode && <CompareProviders scriptData={scriptData} onPromote={promoteScript} />}
+
           {/* Resultado */}
           <Card className="shadow-dark max-w-4xl mx-auto">
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle>Roteiro Gerado</CardTitle>
-                {generatedScript && (
-                  <Button onClick={downloadScript} variant="outline" size="sm">
-                    <Download className="w-4 h-4 mr-2" />
-                    Baixar
+                <div className="flex items-center gap-2">
+                  <CardTitle>Roteiro Gerado</CardTitle>
+                  <Button variant="ghost" size="sm" disabled={isLoading} onClick={() => setShowHistory(true)}>
+                    <History className="w-4 h-4 mr-2" />
+                    Histórico
                   </Button>
+                </div>
+                {generatedScript && !isLoading && (
+                  <div className="flex items-center gap-2">
+                    {scriptDocument && (
+                      <span className="text-xs text-muted-foreground">
+                        {scriptDocument.sections.length} seções · ~{formatTimestamp(scriptDuration(scriptDocument))}
+                      </span>
+                    )}
+                    <Button onClick={() => downloadScript("txt")} variant="outline" size="sm">
+                      <Download className="w-4 h-4 mr-2" />
+                      Baixar
+                    </Button>
+                    {scriptDocument && (
+                      <Button onClick={() => downloadScript("json")} variant="outline" size="sm">
+                        JSON
+                      </Button>
+                    )}
+                    {scriptDocument && (
+                      <Button onClick={() => setEditing(!editing)} variant="outline" size="sm">
+                        {editing ? <Eye className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+                        {editing ? "Visualizar" : "Editar"}
+                      </Button>
+                    )}
+                  </div>
                 )}
               </div>
             </CardHeader>
             <CardContent>
               {generatedScript ? (
                 <div className="space-y-4">
-                  <div className="bg-muted/50 rounded-lg p-4 max-h-96 overflow-y-auto">
-                    <pre className="whitespace-pre-wrap text-sm font-mono">
-                      {generatedScript}
-                    </pre>
-                  </div>
+                  {scriptSource && (
+                    <p className="text-xs text-muted-foreground">
+                      Gerado com {scriptSource.icon} {scriptSource.name}
+                      {failedProviders.length > 0 &&
+                        ` (fallback após falha em ${failedProviders.map((p) => p.name).join(", ")})`}
+                    </p>
+                  )}
+                  {sections.length > 0 && (
+                    <LongFormSections sections={sections} disabled={isLoading} onRegenerate={regenerateSection} />
+                  )}
+                  {editing && completedDocument ? (
+                    <ScriptEditor
+                      script={completedDocument}
+                      scriptData={scriptData}
+                      provider={selectedProvider}
+                      params={generationParams}
+                      onChange={editScript}
+                    />
+                  ) : (
+                    <div className="bg-muted/50 rounded-lg p-4 max-h-96 overflow-y-auto">
+                      <pre
+                        className="whitespace-pre-wrap text-sm font-mono"
+                        lang={scriptData.language || undefined}
+                        dir={textDirection(scriptData.language)}
+                      >
+                        {generatedScript}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-12 text-muted-foreground">
                   <Play className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <p>Seu roteiro aparecerá aqui após a geração</p>
-                  <p className="text-xs mt-2">Provider selecionado: {selectedProvider.icon} {selectedProvider.name}</p>
+                  <p>
+                    {isLoading
+                      ? isLongForm(scriptData.duration)
+                        ? "Planejando a estrutura do roteiro longo..."
+                        : "Gerando o roteiro..."
+                      : "Seu roteiro aparecerá aqui após a geração"}
+                  </p>
+                  <p className="text-xs mt-2">Provider selecionado: {selectedProvider.icon} {selectedProvider.name} · {generationParams.model}</p>
                 </div>
               )}
             </CardContent>
           </Card>
 
-          {/* Imagem */}
-          <div className="max-w-4xl mx-auto">
-            <ImageGenerationSection script={generatedScript || ""} />
-          </div>
-
-          {/* Áudio */}
+          {/* Traduções */}
           <div className="max-w-4xl mx-auto">
-            <AudioGenerationSection script={generatedScript || ""} />
+            <TranslationSection
+              script={completedDocument}
+              language={scriptData.language}
+              topic={scriptData.topic}
+              provider={selectedProvider}
+              params={generationParams}
+              translations={translations}
+              onChange={setTranslations}
+              onUseInAudio={(language) => {
+                setAudioLanguage(language);
+                navigate("../audio");
+              }}
+            />
           </div>
 
-          {/* Combinar */}
+          {/* Custos */}
           <div className="max-w-4xl mx-auto">
-            <CombinedSection script={generatedScript || ""} />
+            <UsageLedger project={project.id} projectName={name} />
           </div>
         </div>
       </div>
 
+      {showTemplates && (
+        <PromptTemplateEditor
+          open={showTemplates}
+          onOpenChange={setShowTemplates}
+          scriptData={scriptData}
+          onChange={refreshStoredSettings}
+        />
+      )}
+      <VersionHistory
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        headId={headVersion?.id}
+        onRestore={restoreVersion}
+        onBranch={branchVersion}
+      />
       <APIKeyModal
         isOpen={showAPIModal}
         onClose={() => setShowAPIModal(false)}
@@ -1,10 +1,13 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Settings, ExternalLink } from "lucide-react";
 import { AIProvider } from "@/types/ai-providers";
+import { saveApiKey } from "@/lib/api-keys";
+import { keyFormatError } from "@/lib/key-validation";
 
 interface APIKeyModalProps {
   isOpen: boolean;
@@ -15,16 +18,24 @@ interface APIKeyModalProps {
 
 export const APIKeyModal = ({ isOpen, onClose, onSave, provider }: APIKeyModalProps) => {
   const [apiKey, setApiKey] = useState("");
+  const [formatError, setFormatError] = useState<string>();
 
   if (!isOpen) return null;
 
-  const handleSave = () => {
-    if (apiKey.trim()) {
-      localStorage.setItem(provider.keyName, apiKey);
-      onSave(apiKey);
-      onClose();
-      setApiKey("");
+  const handleSave = async () => {
+    if (!apiKey.trim()) return;
+    const error = keyFormatError(provider, apiKey);
+    setFormatError(error);
+    if (error) return;
+    try {
+      await saveApiKey(provider, apiKey);
+    } catch {
+      // O pedido de senha foi cancelado; o modal fica aberto com a chave digitada
+      return;
     }
+    onSave(apiKey);
+    onClose();
+    setApiKey("");
   };
 
   return (
@@ -43,10 +54,12 @@ export const APIKeyModal = ({ isOpen, onClose, onSave, provider }: APIKeyModalPr
             <Input
               id="apiKey"
               type="password"
-              placeholder="Cole sua API key aqui..."
+              placeholder={provider.keyFormat?.placeholder ?? "Cole sua API key aqui..."}
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
             />
+            {provider.keyFormat && <p className="text-xs text-muted-foreground mt-1">{provider.keyFormat.hint}</p>}
+            {formatError && <p className="text-xs text-destructive mt-1">{formatError}</p>}
             <div className="flex items-center gap-2 mt-1">
               <p className="text-sm text-muted-foreground">
                 Obtenha sua API key em:
@@ -70,6 +83,9 @@ export const APIKeyModal = ({ isOpen, onClose, onSave, provider }: APIKeyModalPr
               Cancelar
             </Button>
           </div>
+          <Link to="/settings/keys" className="block text-center text-xs text-primary underline">
+            Gerenciar todas as chaves
+          </Link>
         </CardContent>
       </Card>
     </div>
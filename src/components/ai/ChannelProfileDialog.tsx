@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ChannelProfile, loadChannelProfiles, saveChannelProfiles } from "@/lib/channel-profiles";
+
+interface ChannelProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (profile: ChannelProfile) => void;
+  onRemoved: (id: string) => void;
+}
+
+const emptyForm = {
+  id: "",
+  name: "",
+  hostName: "",
+  tone: "",
+  catchphrases: "",
+  bannedWords: "",
+  recurringCta: "",
+  sponsorSegments: "",
+};
+
+const toLines = (text: string) => text.split("\n").map((l) => l.trim()).filter(Boolean);
+
+// Palavras proibidas podem vir separadas por vírgula ou uma por linha
+const toWords = (text: string) => text.split(/[,\n]/).map((w) => w.trim()).filter(Boolean);
+
+export const ChannelProfileDialog = ({ open, onOpenChange, onSaved, onRemoved }: ChannelProfileDialogProps) => {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState(loadChannelProfiles);
+  const [form, setForm] = useState(emptyForm);
+
+  const edit = (profile: ChannelProfile) => {
+    setForm({
+      ...profile,
+      catchphrases: profile.catchphrases.join("\n"),
+      bannedWords: profile.bannedWords.join(", "),
+      sponsorSegments: profile.sponsorSegments.join("\n"),
+    });
+  };
+
+  const remove = (id: string) => {
+    const next = profiles.filter((p) => p.id !== id);
+    saveChannelProfiles(next);
+    setProfiles(next);
+    if (form.id === id) setForm(emptyForm);
+    onRemoved(id);
+  };
+
+  const save = () => {
+    if (!form.name.trim()) {
+      toast({ title: "Nome obrigatório", description: "Informe o nome do canal.", variant: "destructive" });
+      return;
+    }
+    const profile: ChannelProfile = {
+      id: form.id || `profile-${crypto.randomUUID().slice(0, 8)}`,
+      name: form.name.trim(),
+      hostName: form.hostName.trim(),
+      tone: form.tone.trim(),
+      catchphrases: toLines(form.catchphrases),
+      bannedWords: toWords(form.bannedWords),
+      recurringCta: form.recurringCta.trim(),
+      sponsorSegments: toLines(form.sponsorSegments),
+    };
+    const next = profiles.some((p) => p.id === profile.id)
+      ? profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...profiles, profile];
+    saveChannelProfiles(next);
+    setProfiles(next);
+    setForm(emptyForm);
+    onSaved(profile);
+    toast({ title: "Perfil salvo", description: `O perfil ${profile.name} será usado nas próximas gerações.` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Perfis de canal</DialogTitle>
+          <DialogDescription>
+            A persona do canal é enviada como instrução de sistema para o provider em todas as gerações.
+          </DialogDescription>
+        </DialogHeader>
+
+        {profiles.length > 0 && (
+          <ul className="space-y-1">
+            {profiles.map((profile) => (
+              <li key={profile.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">
+                  {profile.name}
+                  {profile.hostName && <span className="text-xs text-muted-foreground"> · {profile.hostName}</span>}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => edit(profile)}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => remove(profile.id)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="profileName">Nome do canal *</Label>
+              <Input
+                id="profileName"
+                placeholder="Ex: Finanças Sem Mistério"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profileHost">Apresentador</Label>
+              <Input
+                id="profileHost"
+                placeholder="Ex: Ana Souza"
+                value={form.hostName}
+                onChange={(e) => setForm({ ...form, hostName: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="profileTone">Tom de voz</Label>
+            <Input
+              id="profileTone"
+              placeholder="Ex: descontraído, direto, com humor leve e sem jargões"
+              value={form.tone}
+              onChange={(e) => setForm({ ...form, tone: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="profileCatchphrases">Bordões (um por linha)</Label>
+              <Textarea
+                id="profileCatchphrases"
+                rows={3}
+                value={form.catchphrases}
+                onChange={(e) => setForm({ ...form, catchphrases: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profileBanned">Palavras proibidas</Label>
+              <Textarea
+                id="profileBanned"
+                rows={3}
+                placeholder="Separadas por vírgula"
+                value={form.bannedWords}
+                onChange={(e) => setForm({ ...form, bannedWords: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="profileCta">CTA recorrente</Label>
+            <Input
+              id="profileCta"
+              placeholder="Ex: Ative o sininho e entre na nossa comunidade no link da descrição"
+              value={form.recurringCta}
+              onChange={(e) => setForm({ ...form, recurringCta: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="profileSponsors">Segmentos de patrocínio (um por linha)</Label>
+            <Textarea
+              id="profileSponsors"
+              rows={3}
+              placeholder="Ex: Banco X — conta digital sem tarifas, cupom CANAL10"
+              value={form.sponsorSegments}
+              onChange={(e) => setForm({ ...form, sponsorSegments: e.target.value })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={save} className="flex-1">
+              {form.id ? "Salvar alterações" : "Adicionar perfil"}
+            </Button>
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(emptyForm)}>
+                Cancelar edição
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { UserCog } from "lucide-react";
+import { loadActiveProfile, loadChannelProfiles, setActiveProfile } from "@/lib/channel-profiles";
+import { ChannelProfileDialog } from "./ChannelProfileDialog";
+
+const NO_PROFILE = "none";
+
+interface ChannelProfileSelectorProps {
+  onChange?: () => void;
+}
+
+export const ChannelProfileSelector = ({ onChange }: ChannelProfileSelectorProps) => {
+  const [profiles, setProfiles] = useState(loadChannelProfiles);
+  const [activeId, setActiveId] = useState(() => loadActiveProfile()?.id ?? NO_PROFILE);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const activate = (id: string) => {
+    setActiveProfile(id === NO_PROFILE ? null : id);
+    setActiveId(id);
+    onChange?.();
+  };
+
+  return (
+    <div>
+      <Label htmlFor="channelProfile">Perfil do canal</Label>
+      <div className="flex gap-2">
+        <Select value={activeId} onValueChange={activate}>
+          <SelectTrigger id="channelProfile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            <SelectItem value={NO_PROFILE}>Sem perfil</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" title="Gerenciar perfis" onClick={() => setShowDialog(true)}>
+          <UserCog className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ChannelProfileDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSaved={(profile) => {
+          setProfiles(loadChannelProfiles());
+          activate(profile.id);
+        }}
+        onRemoved={(id) => {
+          setProfiles(loadChannelProfiles());
+          if (id === activeId) activate(NO_PROFILE);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Columns, Loader2, Square } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AIProvider, ScriptData } from "@/types/ai-providers";
+import { Script, isLongForm } from "@/types/script";
+import { loadGenerationParams } from "@/lib/generation-params";
+import { renderScript } from "@/lib/script-document";
+import { describeError } from "@/lib/provider-errors";
+import { hasApiKey, withApiKey } from "@/lib/api-keys";
+import { useProviders } from "@/hooks/use-providers";
+import { textDirection } from "@/lib/languages";
+import { ScriptGeneratorAPI } from "./ScriptGeneratorAPI";
+
+interface CompareProvidersProps {
+  scriptData: ScriptData;
+  onPromote: (script: Script, provider: AIProvider) => void;
+}
+
+interface CompareResult {
+  provider: AIProvider;
+  model: string;
+  loading: boolean;
+  script?: Script;
+  text?: string;
+  latencyMs?: number;
+  error?: string;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const CompareProviders = ({ scriptData, onPromote }: CompareProvidersProps) => {
+  const { toast } = useToast();
+  const providers = useProviders().filter((p) => p.adapter);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [results, setResults] = useState<CompareResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isRunning = results.some((r) => r.loading);
+
+  // Desligar a comparação (ou sair da etapa) interrompe as gerações em andamento
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((x) => x !== id)));
+  };
+
+  const updateResult = (id: string, update: Partial<CompareResult>) => {
+    setResults((prev) => prev.map((r) => (r.provider.id === id ? { ...r, ...update } : r)));
+  };
+
+  // Mesmo caminho da geração normal: rotação de chaves e modo longo (outline + seções) para durações longas
+  const runOne = async (provider: AIProvider, signal: AbortSignal) => {
+    const params = loadGenerationParams(provider);
+    const start = performance.now();
+    try {
+      const script = await withApiKey(provider, (apiKey) =>
+        isLongForm(scriptData.duration)
+          ? ScriptGeneratorAPI.generateLongForm(provider, scriptData, apiKey, { params, signal })
+          : ScriptGeneratorAPI.generateScript(provider, scriptData, apiKey, params, signal)
+      );
+      updateResult(provider.id, {
+        loading: false,
+        script,
+        text: renderScript(script),
+        latencyMs: Math.round(performance.now() - start),
+      });
+    } catch (e) {
+      updateResult(provider.id, {
+        loading: false,
+        latencyMs: Math.round(performance.now() - start),
+        error: signal.aborted ? "Interrompido" : describeError(e).description,
+      });
+    }
+  };
+
+  const compare = async () => {
+    if (!scriptData.topic || !scriptData.duration || !scriptData.style) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Preencha pelo menos o tópico, duração e estilo do vídeo.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const selected = providers.filter((p) => selectedIds.includes(p.id) && hasApiKey(p));
+    if (selected.length < 2) {
+      toast({ title: "Selecione providers", description: "Escolha ao menos dois providers com API key configurada." });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults(selected.map((provider) => ({ provider, model: loadGenerationParams(provider).model, loading: true })));
+    await Promise.all(selected.map((provider) => runOne(provider, controller.signal)));
+    if (abortRef.current === controller) abortRef.current = null;
+  };
+
+  return (
+    <Card className="shadow-dark max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns className="w-5 h-5" />
+          Comparar Providers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {providers.map((provider) => (
+            <div key={provider.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`compare-${provider.id}`}
+                checked={selectedIds.includes(provider.id)}
+                disabled={!hasApiKey(provider) || isRunning}
+                onCheckedChange={(checked) => toggle(provider.id, checked === true)}
+              />
+              <Label htmlFor={`compare-${provider.id}`} className={hasApiKey(provider) ? "" : "text-muted-foreground"}>
+                {provider.icon} {provider.name}
+                {!hasApiKey(provider) && <span className="block text-xs">sem API key</span>}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={compare} disabled={isRunning} className="flex-1">
+            {isRunning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Comparando...
+              </>
+            ) : (
+              "Gerar com os providers selecionados"
+            )}
+          </Button>
+          {isRunning && (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="w-4 h-4 mr-2" />
+              Parar
+            </Button>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {results.map((result) => (
+              <div key={result.provider.id} className="border rounded-lg p-3 bg-muted/30 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">
+                    {result.provider.icon} {result.provider.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{result.model}</span>
+                </div>
+
+                {result.loading && (
+                  <p className="flex items-center text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Gerando...
+                  </p>
+                )}
+
+                {result.error && <p className="text-xs text-destructive">{result.error}</p>}
+
+                {!result.loading && (
+                  <p className="text-xs text-muted-foreground">
+                    {(result.latencyMs / 1000).toFixed(1)}s
+                    {result.text && ` · ${countWords(result.text)} palavras · ${result.text.length} caracteres`}
+                  </p>
+                )}
+
+                {result.text && (
+                  <>
+                    <pre
+                      className="whitespace-pre-wrap text-xs font-mono max-h-72 overflow-y-auto bg-background/50 rounded p-2"
+                      dir={textDirection(scriptData.language)}
+                    >
+                      {result.text}
+                    </pre>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="w-full"
+                      onClick={() => onPromote(result.script, result.provider)}
+                    >
+                      Usar este roteiro
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AIProvider } from "@/types/ai-providers";
+import { CustomProviderConfig, loadCustomProviders } from "@/lib/custom-providers";
+import { readApiKey, saveApiKey } from "@/lib/api-keys";
+import { customProvider, removeCustomProvider, saveCustomProvider } from "./ProviderRegistry";
+
+interface CustomProviderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (provider: AIProvider) => void;
+  onRemoved: (id: string) => void;
+}
+
+const emptyForm = { id: "", name: "", baseUrl: "", model: "", maxOutputTokens: "4096", apiKey: "" };
+
+export const CustomProviderDialog = ({ open, onOpenChange, onSaved, onRemoved }: CustomProviderDialogProps) => {
+  const { toast } = useToast();
+  const [configs, setConfigs] = useState(loadCustomProviders);
+  const [form, setForm] = useState(emptyForm);
+
+  const edit = async (config: CustomProviderConfig) => {
+    const apiKey = await readApiKey(customProvider(config)).catch(() => "");
+    setForm({ ...config, maxOutputTokens: String(config.maxOutputTokens), apiKey });
+  };
+
+  const remove = (id: string) => {
+    removeCustomProvider(id);
+    setConfigs(loadCustomProviders());
+    if (form.id === id) setForm(emptyForm);
+    onRemoved(id);
+  };
+
+  const save = async () => {
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim();
+    const model = form.model.trim();
+    if (!name || !baseUrl || !model) {
+      toast({ title: "Campos obrigatórios", description: "Informe nome, URL base e modelo.", variant: "destructive" });
+      return;
+    }
+    try {
+      new URL(baseUrl);
+    } catch {
+      toast({ title: "URL inválida", description: "Use uma URL completa, como http://localhost:11434/v1.", variant: "destructive" });
+      return;
+    }
+
+    const provider = saveCustomProvider({
+      id: form.id || `custom-${crypto.randomUUID().slice(0, 8)}`,
+      name,
+      baseUrl,
+      model,
+      maxOutputTokens: Math.max(1, parseInt(form.maxOutputTokens, 10) || 4096),
+    });
+    try {
+      await saveApiKey(provider, form.apiKey);
+    } catch {
+      toast({ title: "API key não salva", description: "Desbloqueie o cofre de chaves para guardar a chave.", variant: "destructive" });
+    }
+
+    setConfigs(loadCustomProviders());
+    setForm(emptyForm);
+    onSaved(provider);
+    toast({ title: "Provider salvo", description: `${name} está disponível na lista de providers.` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Endpoints personalizados</DialogTitle>
+          <DialogDescription>
+            Qualquer API no formato OpenAI chat/completions: Ollama, LM Studio, vLLM ou um gateway interno.
+          </DialogDescription>
+        </DialogHeader>
+
+        {configs.length > 0 && (
+          <ul className="space-y-1">
+            {configs.map((config) => (
+              <li key={config.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">
+                  {config.name}
+                  <span className="block text-xs text-muted-foreground truncate">
+                    {config.model} · {config.baseUrl}
+                  </span>
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => edit(config)}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => remove(config.id)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="customName">Nome</Label>
+            <Input
+              id="customName"
+              placeholder="Ex: Ollama local"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="customBaseUrl">URL base</Label>
+            <Input
+              id="customBaseUrl"
+              placeholder="http://localhost:11434/v1"
+              value={form.baseUrl}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="customModel">Modelo</Label>
+              <Input
+                id="customModel"
+                placeholder="Ex: llama3.1:8b"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customMaxTokens">Máximo de tokens</Label>
+              <Input
+                id="customMaxTokens"
+                type="number"
+                min={1}
+                value={form.maxOutputTokens}
+                onChange={(e) => setForm({ ...form, maxOutputTokens: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="customApiKey">API key (opcional)</Label>
+            <Input
+              id="customApiKey"
+              type="password"
+              placeholder="Deixe em branco se o endpoint não exige chave"
+              value={form.apiKey}
+              onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            O servidor precisa aceitar chamadas do navegador (CORS). No Ollama, defina OLLAMA_ORIGINS.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={save} className="flex-1">
+              {form.id ? "Salvar alterações" : "Adicionar provider"}
+            </Button>
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(emptyForm)}>
+                Cancelar edição
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
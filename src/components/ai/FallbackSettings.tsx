@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Shuffle } from "lucide-react";
+import { loadFallbackSettings, orderProviders, saveFallbackSettings } from "@/lib/provider-fallback";
+import { hasApiKey } from "@/lib/api-keys";
+import { useProviders } from "@/hooks/use-providers";
+
+export const FallbackSettings = () => {
+  const [settings, setSettings] = useState(loadFallbackSettings);
+  const providers = orderProviders(useProviders().filter((p) => p.adapter), settings.order);
+
+  const update = (enabled: boolean, order: string[]) => {
+    const next = { enabled, order };
+    setSettings(next);
+    saveFallbackSettings(next);
+  };
+
+  const move = (index: number, offset: number) => {
+    const order = providers.map((p) => p.id);
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    update(settings.enabled, order);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline">
+          <Shuffle className="w-4 h-4 mr-2" />
+          Fallback
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-card border-border space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="fallbackEnabled">Tentar outro provider em caso de falha</Label>
+          <Switch
+            id="fallbackEnabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update(enabled, providers.map((p) => p.id))}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Em limite de uso, instabilidade ou chave inválida, o roteiro é gerado pelo próximo provider com API key configurada, nesta ordem.
+        </p>
+        <ol className="space-y-1">
+          {providers.map((provider, index) => {
+            const hasKey = hasApiKey(provider);
+            return (
+              <li key={provider.id} className="flex items-center gap-2 text-sm">
+                <span className="w-4 text-xs text-muted-foreground">{index + 1}.</span>
+                <span className={`flex-1 ${hasKey ? "" : "text-muted-foreground"}`}>
+                  {provider.icon} {provider.name}
+                  {!hasKey && <span className="text-xs"> (sem API key)</span>}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => move(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => move(index, 1)}
+                  disabled={index === providers.length - 1}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { SlidersHorizontal } from "lucide-react";
+import { AIProvider, GenerationParams } from "@/types/ai-providers";
+import { defaultGenerationParams, getModel } from "@/lib/generation-params";
+
+interface GenerationSettingsProps {
+  provider: AIProvider;
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+}
+
+export const GenerationSettings = ({ provider, params, onChange }: GenerationSettingsProps) => {
+  const model = getModel(provider, params.model);
+  const maxOutputTokens = model?.maxOutputTokens ?? params.maxTokens;
+
+  const changeModel = (modelId: string) => {
+    const next = getModel(provider, modelId);
+    if (!next) return;
+    onChange({ ...params, model: next.id, maxTokens: next.maxOutputTokens });
+  };
+
+  const changeMaxTokens = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...params, maxTokens: Math.max(1, Math.min(parsed, maxOutputTokens)) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Avançado
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-card border-border space-y-4">
+        <div>
+          <Label htmlFor="model">Modelo</Label>
+          <Select value={params.model} onValueChange={changeModel}>
+            <SelectTrigger id="model">
+              <SelectValue placeholder="Selecione o modelo" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {provider.models?.map((m) => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Temperature</Label>
+            <span className="text-xs text-muted-foreground">{params.temperature.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[params.temperature]}
+            onValueChange={([temperature]) => onChange({ ...params, temperature })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Top P</Label>
+            <span className="text-xs text-muted-foreground">{params.topP.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[params.topP]}
+            onValueChange={([topP]) => onChange({ ...params, topP })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="maxTokens">Máximo de tokens de saída</Label>
+          <Input
+            id="maxTokens"
+            type="number"
+            min={1}
+            max={maxOutputTokens}
+            value={params.maxTokens}
+            onChange={(e) => changeMaxTokens(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">Limite do modelo: {maxOutputTokens} tokens</p>
+        </div>
+
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => onChange(defaultGenerationParams(provider, params.model))}
+        >
+          Restaurar padrões
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
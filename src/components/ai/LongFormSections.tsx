@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle2, Circle, Loader2, RefreshCw } from "lucide-react";
+import { LongFormSection, SectionStatus } from "@/types/script";
+
+interface LongFormSectionsProps {
+  sections: LongFormSection[];
+  disabled: boolean;
+  onRegenerate: (index: number) => void;
+}
+
+const STATUS_ICON: Record<SectionStatus, JSX.Element> = {
+  pending: <Circle className="w-4 h-4 text-muted-foreground" />,
+  generating: <Loader2 className="w-4 h-4 animate-spin text-primary" />,
+  done: <CheckCircle2 className="w-4 h-4 text-primary" />,
+  error: <AlertCircle className="w-4 h-4 text-destructive" />,
+};
+
+export const LongFormSections = ({ sections, disabled, onRegenerate }: LongFormSectionsProps) => {
+  const done = sections.filter((s) => s.status === "done").length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span>Seções geradas</span>
+        <span className="text-muted-foreground">{done} de {sections.length}</span>
+      </div>
+      <Progress value={(done / sections.length) * 100} className="h-2" />
+      <ul className="space-y-1">
+        {sections.map((section, index) => (
+          <li key={`${section.start}-${index}`} className="flex items-center gap-2 text-sm">
+            {STATUS_ICON[section.status]}
+            <span className="text-xs text-muted-foreground font-mono">{section.start} - {section.end}</span>
+            <span className="flex-1 truncate">{section.title}</span>
+            {section.error && (
+              <span className="text-xs text-destructive truncate max-w-[200px]">{section.error}</span>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              disabled={disabled}
+              onClick={() => onRegenerate(index)}
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Regenerar
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
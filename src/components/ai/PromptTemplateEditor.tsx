@@ -0,0 +1,252 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Download, Save, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ScriptData } from "@/types/ai-providers";
+import { PromptTemplate } from "@/types/prompt-template";
+import {
+  TEMPLATE_VARIABLES,
+  defaultTemplate,
+  exportTemplates,
+  importTemplates,
+  loadCustomTemplates,
+  renderTemplate,
+  resolveTemplate,
+  saveCustomTemplates,
+  setStyleTemplate,
+  styleLabel,
+} from "@/lib/prompt-templates";
+import { getLanguage } from "@/lib/languages";
+
+interface PromptTemplateEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scriptData: ScriptData;
+  onChange: () => void;
+}
+
+export const PromptTemplateEditor = ({ open, onOpenChange, scriptData, onChange }: PromptTemplateEditorProps) => {
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [customTemplates, setCustomTemplates] = useState(loadCustomTemplates);
+  const [draft, setDraft] = useState<PromptTemplate>(() => resolveTemplate(scriptData.style, scriptData.language));
+
+  const builtIn = defaultTemplate(scriptData.style, scriptData.language);
+  const templates = [builtIn, ...customTemplates];
+  const activeId = resolveTemplate(scriptData.style, scriptData.language).id;
+  const languageLabel = getLanguage(scriptData.language).label;
+
+  const persist = (next: PromptTemplate[]) => {
+    saveCustomTemplates(next);
+    setCustomTemplates(next);
+    onChange();
+  };
+
+  const select = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (template) setDraft(template);
+  };
+
+  const duplicate = () => {
+    const copy = { id: `custom-${crypto.randomUUID().slice(0, 8)}`, name: `${draft.name} (cópia)`, body: draft.body };
+    persist([...customTemplates, copy]);
+    setDraft(copy);
+  };
+
+  const save = () => {
+    if (!draft.name.trim() || !draft.body.trim()) {
+      toast({ title: "Template incompleto", description: "Informe nome e texto do template.", variant: "destructive" });
+      return;
+    }
+    persist(customTemplates.map((t) => (t.id === draft.id ? draft : t)));
+    toast({ title: "Template salvo" });
+  };
+
+  const remove = () => {
+    persist(customTemplates.filter((t) => t.id !== draft.id));
+    setDraft(builtIn);
+  };
+
+  const useForStyle = () => {
+    if (!draft.builtIn) persist(customTemplates.map((t) => (t.id === draft.id ? draft : t)));
+    setStyleTemplate(scriptData.style, scriptData.language, draft.id);
+    onChange();
+    toast({
+      title: "Template aplicado",
+      description: `"${draft.name}" será usado no estilo ${styleLabel(scriptData.style)} em ${languageLabel}.`,
+    });
+  };
+
+  // Insere o placeholder na posição do cursor
+  const insertVariable = (key: string) => {
+    const textarea = bodyRef.current;
+    const placeholder = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? start;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + placeholder + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const download = () => {
+    const blob = new Blob([exportTemplates(customTemplates)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "templates-de-prompt.json";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (file: File) => {
+    try {
+      const count = importTemplates(await file.text());
+      setCustomTemplates(loadCustomTemplates());
+      onChange();
+      toast({ title: "Templates importados", description: `${count} template(s) adicionados.` });
+    } catch (e) {
+      toast({
+        title: "Falha ao importar",
+        description: e instanceof Error ? e.message : "Arquivo inválido.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Templates de prompt</DialogTitle>
+          <DialogDescription>
+            {scriptData.style
+              ? `Estilo selecionado: ${styleLabel(scriptData.style)}, roteiro em ${languageLabel}.`
+              : "Selecione um estilo para usar o template padrão dele."}{" "}
+            O formato de resposta em JSON é adicionado automaticamente ao final.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[200px]">
+            <Label>Template</Label>
+            <Select value={draft.id} onValueChange={select}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                    {t.id === activeId && " (em uso)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={duplicate}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicar
+          </Button>
+          <Button variant="outline" onClick={download} disabled={!customTemplates.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Exportar
+          </Button>
+          <Button variant="outline" onClick={() => fileRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Importar
+          </Button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) upload(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div>
+              <Label htmlFor="templateName">Nome</Label>
+              <Input
+                id="templateName"
+                value={draft.name}
+                readOnly={draft.builtIn}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {TEMPLATE_VARIABLES.map((v) => (
+                <Badge
+                  key={v.key}
+                  variant="secondary"
+                  title={v.label}
+                  className={draft.builtIn ? "opacity-50" : "cursor-pointer"}
+                  onClick={() => !draft.builtIn && insertVariable(v.key)}
+                >
+                  {`{{${v.key}}}`}
+                </Badge>
+              ))}
+            </div>
+            <Textarea
+              ref={bodyRef}
+              rows={18}
+              className="font-mono text-xs"
+              value={draft.body}
+              readOnly={draft.builtIn}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            />
+            {draft.builtIn && (
+              <p className="text-xs text-muted-foreground">Templates padrão não podem ser alterados. Duplique para editar.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pré-visualização</Label>
+            <pre className="whitespace-pre-wrap text-xs font-mono bg-muted/50 rounded-lg p-3 h-[420px] overflow-y-auto">
+              {renderTemplate(draft.body, scriptData)}
+            </pre>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {!draft.builtIn && (
+            <>
+              <Button onClick={save}>
+                <Save className="w-4 h-4 mr-2" />
+                Salvar
+              </Button>
+              <Button variant="outline" onClick={remove}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Excluir
+              </Button>
+            </>
+          )}
+          <Button
+            variant="secondary"
+            className="ml-auto"
+            onClick={useForStyle}
+            disabled={!scriptData.style || draft.id === activeId}
+          >
+            Usar no estilo {scriptData.style ? `${styleLabel(scriptData.style)} (${languageLabel})` : ""}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
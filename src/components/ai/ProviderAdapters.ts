@@ -0,0 +1,212 @@
+import type { ProviderAdapter, TokenUsage } from "@/types/ai-providers";
+import {
+  ContentFilteredError,
+  MalformedResponseError,
+  providerErrorFromResponse,
+} from "@/lib/provider-errors";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string }; finish_reason?: string }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface ClaudeMessageResponse {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+  usage?: ClaudeUsage;
+}
+
+interface ClaudeStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string; stop_reason?: string };
+  error?: { type: string; message: string };
+  message?: { usage?: ClaudeUsage };
+  usage?: ClaudeUsage;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface OpenAICompatibleOptions {
+  name: string;
+  endpoint: string;
+  // Pede o consumo no último evento do stream (stream_options); nem toda API compatível aceita o campo
+  streamUsage?: boolean;
+  // A Perplexity não expõe GET /models
+  listsModels?: boolean;
+}
+
+const GEMINI_BLOCK_REASONS = ["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "RECITATION"];
+
+function parseJSONEvent<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Só inclui os campos informados, para não sobrescrever valores de eventos anteriores do stream
+function tokenUsage(promptTokens?: number, completionTokens?: number): Partial<TokenUsage> | null {
+  const usage: Partial<TokenUsage> = {};
+  if (typeof promptTokens === "number") usage.promptTokens = promptTokens;
+  if (typeof completionTokens === "number") usage.completionTokens = completionTokens;
+  return Object.keys(usage).length ? usage : null;
+}
+
+const mapResponseError = (name: string) => (status: number, body: string, headers?: Headers) =>
+  providerErrorFromResponse(name, status, body, headers);
+
+const contentFiltered = (name: string, reason: string) =>
+  new ContentFilteredError(`${name}: conteúdo bloqueado pelo filtro de segurança`, name, undefined, reason);
+
+const malformed = (name: string, data: unknown) =>
+  new MalformedResponseError(`${name}: resposta em formato inesperado`, name, undefined, JSON.stringify(data)?.slice(0, 300));
+
+function readChatCompletion(name: string, data: ChatCompletionResponse, streaming: boolean): string {
+  const choice = data?.choices?.[0];
+  if (choice?.finish_reason === "content_filter") throw contentFiltered(name, choice.finish_reason);
+  const content = streaming ? choice?.delta?.content : choice?.message?.content;
+  if (!streaming && typeof content !== "string") throw malformed(name, data);
+  return content ?? "";
+}
+
+function readGemini(name: string, data: GeminiResponse, streaming: boolean): string {
+  if (data?.promptFeedback?.blockReason) throw contentFiltered(name, data.promptFeedback.blockReason);
+  const candidate = data?.candidates?.[0];
+  const text = candidate?.content?.parts?.map((p) => p.text ?? "").join("");
+  if (!text && candidate?.finishReason && GEMINI_BLOCK_REASONS.includes(candidate.finishReason)) {
+    throw contentFiltered(name, candidate.finishReason);
+  }
+  if (!streaming && !text) throw malformed(name, data);
+  return text ?? "";
+}
+
+const readChatUsage = (data: ChatCompletionResponse) =>
+  tokenUsage(data?.usage?.prompt_tokens, data?.usage?.completion_tokens);
+
+const readGeminiUsage = (data: GeminiResponse) =>
+  tokenUsage(data?.usageMetadata?.promptTokenCount, data?.usageMetadata?.candidatesTokenCount);
+
+// Grok, Mistral, DeepSeek, Perplexity e OpenAI usam o formato chat/completions
+export function openAICompatibleAdapter({ name, endpoint, streamUsage, listsModels = true }: OpenAICompatibleOptions): ProviderAdapter {
+  return {
+    buildRequest: (apiKey, { prompt, system, params, stream }) => ({
+      url: endpoint,
+      // Endpoints locais costumam dispensar a chave
+      headers: {
+        ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: {
+        model: params.model,
+        messages: [...(system ? [{ role: "system", content: system }] : []), { role: "user", content: prompt }],
+        max_tokens: params.maxTokens,
+        temperature: params.temperature,
+        top_p: params.topP,
+        stream: Boolean(stream),
+        ...(stream && streamUsage ? { stream_options: { include_usage: true } } : {}),
+      },
+    }),
+    keyCheck: listsModels
+      ? (apiKey) => ({
+          url: endpoint.replace(/\/chat\/completions\/?$/, "/models"),
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        })
+      : undefined,
+    parseResponse: (data) => readChatCompletion(name, data as ChatCompletionResponse, false),
+    parseStreamEvent: (data) => readChatCompletion(name, parseJSONEvent<ChatCompletionResponse>(data), true),
+    parseUsage: (data) => readChatUsage(data as ChatCompletionResponse),
+    parseStreamUsage: (data) => readChatUsage(parseJSONEvent<ChatCompletionResponse>(data)),
+    mapError: mapResponseError(name),
+  };
+}
+
+export function claudeAdapter({ name }: { name: string }): ProviderAdapter {
+  return {
+    buildRequest: (apiKey, { prompt, system, params, stream }) => ({
+      url: "https://api.anthropic.com/v1/messages",
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+        "anthropic-version": "2023-06-01",
+      },
+      body: {
+        model: params.model,
+        max_tokens: params.maxTokens,
+        // A API da Anthropic aceita temperature apenas entre 0 e 1
+        temperature: Math.min(params.temperature, 1),
+        top_p: params.topP,
+        ...(system ? { system } : {}),
+        messages: [{ role: "user", content: prompt }],
+        stream: Boolean(stream),
+      },
+    }),
+    keyCheck: (apiKey) => ({
+      url: "https://api.anthropic.com/v1/models?limit=1",
+      headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+    }),
+    parseResponse: (data) => {
+      const message = data as ClaudeMessageResponse;
+      if (message?.stop_reason === "refusal") throw contentFiltered(name, message.stop_reason);
+      const text = message?.content?.find((c) => c.type === "text")?.text;
+      if (typeof text !== "string") throw malformed(name, data);
+      return text;
+    },
+    parseStreamEvent: (data) => {
+      const event = parseJSONEvent<ClaudeStreamEvent>(data);
+      // Erros como overloaded_error podem chegar no meio do stream
+      if (event?.type === "error") throw providerErrorFromResponse(name, 500, data);
+      if (event?.delta?.stop_reason === "refusal") throw contentFiltered(name, event.delta.stop_reason);
+      return event?.type === "content_block_delta" ? event.delta?.text ?? "" : "";
+    },
+    parseUsage: (data) => {
+      const usage = (data as ClaudeMessageResponse)?.usage;
+      return tokenUsage(usage?.input_tokens, usage?.output_tokens);
+    },
+    // message_start traz os tokens de entrada; message_delta, o total de saída acumulado
+    parseStreamUsage: (data) => {
+      const event = parseJSONEvent<ClaudeStreamEvent>(data);
+      const usage = event?.type === "message_start" ? event.message?.usage : event?.usage;
+      return tokenUsage(usage?.input_tokens, usage?.output_tokens);
+    },
+    mapError: mapResponseError(name),
+  };
+}
+
+export function geminiAdapter({ name }: { name: string }): ProviderAdapter {
+  return {
+    buildRequest: (apiKey, { prompt, system, params, stream }) => ({
+      url: stream
+        ? `https://generativelanguage.googleapis.com/v1beta/models/${params.model}:streamGenerateContent?alt=sse&key=${apiKey}`
+        : `https://generativelanguage.googleapis.com/v1beta/models/${params.model}:generateContent?key=${apiKey}`,
+      headers: { "Content-Type": "application/json" },
+      body: {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: params.temperature,
+          topP: params.topP,
+          maxOutputTokens: params.maxTokens,
+        },
+      },
+    }),
+    keyCheck: (apiKey) => ({
+      url: `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1&key=${apiKey}`,
+      headers: {},
+    }),
+    parseResponse: (data) => readGemini(name, data as GeminiResponse, false),
+    parseStreamEvent: (data) => readGemini(name, parseJSONEvent<GeminiResponse>(data), true),
+    parseUsage: (data) => readGeminiUsage(data as GeminiResponse),
+    parseStreamUsage: (data) => readGeminiUsage(parseJSONEvent<GeminiResponse>(data)),
+    mapError: mapResponseError(name),
+  };
+}
@@ -0,0 +1,81 @@
+import { AI_PROVIDERS, AIProvider, ModelOption, ProviderAdapter } from "@/types/ai-providers";
+import { CustomProviderConfig, chatCompletionsUrl, loadCustomProviders, saveCustomProviders } from "@/lib/custom-providers";
+import { removeAllApiKeys } from "@/lib/api-keys";
+import { openAICompatibleAdapter } from "./ProviderAdapters";
+
+const providers = new Map<string, AIProvider>(AI_PROVIDERS.map((p) => [p.id, p]));
+const listeners = new Set<() => void>();
+
+export function customProvider(config: CustomProviderConfig): AIProvider {
+  const endpoint = chatCompletionsUrl(config.baseUrl);
+  return {
+    id: config.id,
+    name: config.name,
+    icon: "🛠️",
+    endpoint,
+    keyName: `${config.id}_api_key`,
+    getApiKeyUrl: config.baseUrl,
+    apiKeyOptional: true,
+    models: [{ id: config.model, name: config.model, maxOutputTokens: config.maxOutputTokens }],
+    adapter: openAICompatibleAdapter({ name: config.name, endpoint }),
+  };
+}
+
+loadCustomProviders().forEach((config) => providers.set(config.id, customProvider(config)));
+
+let snapshot = Array.from(providers.values());
+
+function notify() {
+  snapshot = Array.from(providers.values());
+  listeners.forEach((listener) => listener());
+}
+
+// Permite registrar providers internos/self-hosted sem alterar o ScriptGeneratorAPI
+export function registerProvider(provider: AIProvider & { adapter: ProviderAdapter; models: ModelOption[] }) {
+  providers.set(provider.id, provider);
+  notify();
+}
+
+export function unregisterProvider(id: string) {
+  if (providers.delete(id)) notify();
+}
+
+export function subscribeProviders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getProviders(): AIProvider[] {
+  return snapshot;
+}
+
+export function getProvider(id: string): AIProvider | undefined {
+  return providers.get(id);
+}
+
+export function getAdapter(id: string): ProviderAdapter {
+  const adapter = providers.get(id)?.adapter;
+  if (!adapter) throw new Error(`Provider ${id} não suportado`);
+  return adapter;
+}
+
+// Providers definidos pelo usuário são salvos e registrados de novo ao abrir o app
+export function saveCustomProvider(config: CustomProviderConfig): AIProvider {
+  const configs = loadCustomProviders();
+  const index = configs.findIndex((c) => c.id === config.id);
+  saveCustomProviders(index === -1 ? [...configs, config] : configs.map((c, i) => (i === index ? config : c)));
+  const provider = customProvider(config);
+  providers.set(provider.id, provider);
+  notify();
+  return provider;
+}
+
+export function removeCustomProvider(id: string) {
+  const provider = providers.get(id);
+  saveCustomProviders(loadCustomProviders().filter((c) => c.id !== id));
+  // Com o cofre bloqueado e o pedido de senha recusado, a chave órfã só fica no cofre
+  if (provider) removeAllApiKeys(provider).catch(() => {});
+  unregisterProvider(id);
+}
@@ -1,6 +1,12 @@
+import { useState } from "react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { AI_PROVIDERS, AIProvider } from "@/types/ai-providers";
+import { Plus } from "lucide-react";
+import { AIProvider } from "@/types/ai-providers";
+import { useProviders } from "@/hooks/use-providers";
+import { getProvider } from "./ProviderRegistry";
+import { CustomProviderDialog } from "./CustomProviderDialog";
 
 interface ProviderSelectorProps {
   selectedProvider: AIProvider;
@@ -8,30 +14,47 @@ interface ProviderSelectorProps {
 }
 
 export const ProviderSelector = ({ selectedProvider, onProviderChange }: ProviderSelectorProps) => {
+  const providers = useProviders();
+  const [showCustom, setShowCustom] = useState(false);
+
   return (
     <div>
       <Label htmlFor="provider">Provider de IA</Label>
-      <Select
-        value={selectedProvider.id}
-        onValueChange={(value) => {
-          const provider = AI_PROVIDERS.find(p => p.id === value);
-          if (provider) onProviderChange(provider);
+      <div className="flex gap-2">
+        <Select
+          value={selectedProvider.id}
+          onValueChange={(value) => {
+            const provider = getProvider(value);
+            if (provider) onProviderChange(provider);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Selecione o provider" />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {providers.map((provider) => (
+              <SelectItem key={provider.id} value={provider.id}>
+                <span className="flex items-center gap-2">
+                  <span>{provider.icon}</span>
+                  {provider.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" title="Endpoint personalizado" onClick={() => setShowCustom(true)}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <CustomProviderDialog
+        open={showCustom}
+        onOpenChange={setShowCustom}
+        onSaved={onProviderChange}
+        onRemoved={(id) => {
+          if (id === selectedProvider.id) onProviderChange(providers[0]);
         }}
-      >
-        <SelectTrigger>
-          <SelectValue placeholder="Selecione o provider" />
-        </SelectTrigger>
-        <SelectContent className="bg-card border-border">
-          {AI_PROVIDERS.map((provider) => (
-            <SelectItem key={provider.id} value={provider.id}>
-              <span className="flex items-center gap-2">
-                <span>{provider.icon}</span>
-                {provider.name}
-              </span>
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
+      />
     </div>
   );
-};
\ No newline at end of file
+};
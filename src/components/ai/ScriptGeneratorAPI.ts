@@ -1,207 +1,443 @@
-import { AIProvider, ScriptData } from "@/types/ai-providers";
+import { AIProvider, GenerationParams, GenerationRequest, ScriptData, TokenUsage } from "@/types/ai-providers";
+import { OutlineSection, Script, isLongForm, outlineSchema, scriptSchema } from "@/types/script";
+import { getModel, loadGenerationParams } from "@/lib/generation-params";
+import {
+  SegmentKey,
+  parseScript,
+  scriptFromLongForm,
+  scriptOutline,
+  scriptSegments,
+  splitCues,
+  withSourceTiming,
+} from "@/lib/script-document";
+import { MalformedResponseError, NetworkError, isRetryableError } from "@/lib/provider-errors";
+import { readServerSentEvents } from "@/lib/sse";
+import { HttpTimeoutError, httpRequest } from "@/lib/http-client";
+import { estimateScriptTokens, estimateTokens, tokenCost } from "@/lib/usage-cost";
+import { recordUsage } from "@/lib/usage-ledger";
+import { apiKeySlotOf, withApiKey } from "@/lib/api-keys";
+import { buildProxyRequest, isProxied } from "@/lib/proxy-mode";
+import { renderSpecifications, renderTemplate, resolveTemplate } from "@/lib/prompt-templates";
+import { RewriteAction, promptLocale } from "@/lib/prompt-locales";
+import { getLanguage } from "@/lib/languages";
+import { buildSystemPrompt, loadActiveProfile } from "@/lib/channel-profiles";
+import { getAdapter } from "./ProviderRegistry";
+
+// Sem streaming a resposta só chega quando o roteiro inteiro fica pronto
+const COMPLETE_TIMEOUT_MS = 180000;
+const STREAM_TIMEOUT_MS = 60000;
+// Quantidade típica de seções pedida em buildOutlinePrompt, usada só na estimativa
+const ESTIMATED_LONG_FORM_SECTIONS = 9;
+const ESTIMATED_OUTLINE_TOKENS_PER_SECTION = 60;
+
+export interface StreamOptions {
+  onChunk: (chunk: string) => void;
+  signal?: AbortSignal;
+  params?: GenerationParams;
+}
+
+export interface SectionOptions extends StreamOptions {
+  outline: OutlineSection[];
+  index: number;
+  previousContent?: string;
+}
+
+export interface LongFormOptions {
+  params?: GenerationParams;
+  signal?: AbortSignal;
+  onOutline?: (outline: OutlineSection[]) => void;
+  // Gera uma seção; por padrão chama streamSection sem acompanhar o texto
+  generateSection?: (outline: OutlineSection[], index: number, previousContent: string | undefined) => Promise<string>;
+}
+
+export interface FallbackOptions {
+  signal?: AbortSignal;
+  onFallback?: (failed: AIProvider, next: AIProvider, error: unknown) => void;
+}
+
+export interface FallbackResult<T> {
+  result: T;
+  provider: AIProvider;
+  failures: { provider: AIProvider; error: unknown }[];
+}
+
+export interface UsageEstimate extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface RewriteRequest {
+  title: string;
+  // Narração completa da seção onde está o trecho
+  context: string;
+  selection: string;
+  action?: RewriteAction;
+  instruction?: string;
+}
+
+// Remove aspas ou blocos de código que alguns modelos colocam em volta da resposta
+function cleanRewrite(text: string): string {
+  const trimmed = text.trim().replace(/^```\w*\n?([\s\S]*?)\n?```$/, "$1").trim();
+  const quoted = trimmed.match(/^["“«](.*)["”»]$/s);
+  return quoted ? quoted[1].trim() : trimmed;
+}
 
 export class ScriptGeneratorAPI {
-  static async generateScript(provider: AIProvider, scriptData: ScriptData, apiKey: string): Promise<string> {
-    const prompt = this.buildPrompt(scriptData);
-
-    switch (provider.id) {
-      case 'gemini':
-        return this.callGemini(apiKey, prompt);
-      case 'openai':
-        return this.callOpenAI(apiKey, prompt);
-      case 'claude':
-        return this.callClaude(apiKey, prompt);
-      case 'grok':
-        return this.callGrok(apiKey, prompt);
-      case 'mistral':
-        return this.callMistral(apiKey, prompt);
-      case 'deepseek':
-        return this.callDeepSeek(apiKey, prompt);
-      case 'perplexity':
-        return this.callPerplexity(apiKey, prompt);
-      default:
-        throw new Error(`Provider ${provider.id} não suportado`);
-    }
+  static async generateScript(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    apiKey: string,
+    params: GenerationParams = loadGenerationParams(provider),
+    signal?: AbortSignal
+  ): Promise<Script> {
+    return parseScript(await this.complete(provider, apiKey, this.buildPrompt(scriptData), params, signal));
   }
 
-  private static buildPrompt(scriptData: ScriptData): string {
-    return `
-Crie um roteiro detalhado para um vídeo do YouTube com as seguintes especificações:
-
-**Tópico:** ${scriptData.topic}
-**Duração:** ${scriptData.duration} minutos
-**Estilo:** ${scriptData.style}
-**Palavras-chave do estilo:** ${scriptData.styleKeywords || "Nenhuma"}
-**Idioma:** ${scriptData.language || "Português (Brasil)"}
-**Nicho:** ${scriptData.niche || "Não informado"}
-**Sobrenicho:** ${scriptData.subniche || "Não informado"}
-**Micronicho:** ${scriptData.microniche || "Não informado"}
-**Nanonicho:** ${scriptData.nanoniche || "Não informado"}
-**Link de referência (YouTube):** ${scriptData.youtubeLink || "Nenhum"}
-**Público qualificado:** ${scriptData.qualified ? "Sim" : "Não"}
-**Público-alvo:** ${scriptData.audience || "Geral"}
-**Informações adicionais:** ${scriptData.additionalInfo || "Nenhuma"}
-
-O roteiro deve incluir:
-1. Hook inicial (primeiros 15 segundos)
-2. Introdução e apresentação do problema/tópico
-3. Desenvolvimento do conteúdo principal (dividido em seções)
-4. Call-to-action para inscrição e likes
-5. Conclusão e próximos passos
-6. Outro (final do vídeo)
-
-Formate o roteiro de forma clara, com indicações de tempo aproximado para cada seção.
-Use uma linguagem envolvente e adequada para YouTube.
-Inclua sugestões de elementos visuais quando relevante.
-Adapte o tom e a linguagem conforme as palavras-chave do estilo fornecidas.
-Adapte o conteúdo ao nicho e subnichos especificados.
-Se houver link do YouTube, use-o apenas como referência (sem copiar), destacando diferenciais e atualizações.
-Se o público for qualificado, aprofunde a terminologia e a complexidade; caso contrário, simplifique e use exemplos práticos.
-Escreva todo o roteiro no idioma especificado pelo usuário.
-`;
+  // Entrega a resposta em pedaços conforme o provider transmite via SSE; retorna o texto completo, a ser validado com parseScript
+  static async streamScript(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    apiKey: string,
+    options: StreamOptions
+  ): Promise<string> {
+    return this.stream(provider, apiKey, this.buildPrompt(scriptData), options);
   }
 
-  private static async callGemini(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-        }),
+  // Executa a tarefa com cada provider da cadeia até um deles concluir; erros não recuperáveis interrompem a cadeia.
+  // Antes de passar ao próximo provider, a rotação tenta as outras chaves do mesmo provider
+  static async withFallback<T>(
+    chain: AIProvider[],
+    task: (provider: AIProvider, apiKey: string) => Promise<T>,
+    { signal, onFallback }: FallbackOptions = {}
+  ): Promise<FallbackResult<T>> {
+    const failures: FallbackResult<T>["failures"] = [];
+
+    for (let i = 0; i < chain.length; i++) {
+      const provider = chain[i];
+      try {
+        const result = await withApiKey(provider, (apiKey) => task(provider, apiKey));
+        return { result, provider, failures };
+      } catch (error) {
+        const next = chain[i + 1];
+        if (signal?.aborted || !next || !isRetryableError(error)) throw error;
+        failures.push({ provider, error });
+        onFallback?.(provider, next, error);
       }
-    );
-
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com Gemini");
-    
-    const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
-  }
-
-  private static async callOpenAI(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
+    }
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com OpenAI");
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-
-  private static async callClaude(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": apiKey,
-        "Content-Type": "application/json",
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: "claude-3-sonnet-20240229",
-        max_tokens: 2000,
-        messages: [{ role: "user", content: prompt }],
-      }),
-    });
+    throw new Error("Nenhum provider disponível para gerar o roteiro");
+  }
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com Claude");
-    
-    const data = await response.json();
-    return data.content[0].text;
-  }
-
-  private static async callGrok(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.x.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        messages: [{ role: "user", content: prompt }],
-        model: "grok-beta",
-        stream: false,
-        temperature: 0.7,
-      }),
-    });
+  // Estimativa antes de gerar, a partir do prompt que será enviado e da duração pedida
+  static estimateUsage(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    params: GenerationParams = loadGenerationParams(provider)
+  ): UsageEstimate {
+    const scriptTokens = estimateScriptTokens(scriptData.duration);
+    let usage: TokenUsage;
+    let calls: number;
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com Grok");
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-
-  private static async callMistral(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "mistral-large-latest",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
+    if (isLongForm(scriptData.duration)) {
+      // Outline e depois uma chamada por seção, cada uma reenviando a estrutura e o final da seção anterior
+      const count = ESTIMATED_LONG_FORM_SECTIONS;
+      const outline = Array.from({ length: count }, () => ({
+        title: "Título da seção",
+        start: "00:00",
+        end: "00:00",
+        summary: "Resumo do que a seção cobre em uma ou duas frases curtas.",
+      }));
+      const sectionPrompt = estimateTokens(this.buildSectionPrompt(scriptData, outline, 1, " ".repeat(1500)));
+      usage = {
+        promptTokens: estimateTokens(this.buildOutlinePrompt(scriptData)) + count * sectionPrompt,
+        completionTokens: count * (ESTIMATED_OUTLINE_TOKENS_PER_SECTION + Math.min(params.maxTokens, Math.ceil(scriptTokens / count))),
+      };
+      calls = count + 1;
+    } else {
+      usage = {
+        promptTokens: estimateTokens(this.buildPrompt(scriptData)),
+        completionTokens: Math.min(params.maxTokens, scriptTokens),
+      };
+      calls = 1;
+    }
+    usage.promptTokens += calls * estimateTokens(this.systemPrompt() ?? "");
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com Mistral");
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-
-  private static async callDeepSeek(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.deepseek.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
+    return { ...usage, calls, costUsd: tokenCost(getModel(provider, params.model)?.pricing, usage) };
+  }
+
+  // Primeira etapa do modo longo: estrutura com seções e marcações de tempo
+  static async generateOutline(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    apiKey: string,
+    params: GenerationParams = loadGenerationParams(provider),
+    signal?: AbortSignal
+  ): Promise<OutlineSection[]> {
+    const text = await this.complete(provider, apiKey, this.buildOutlinePrompt(scriptData), params, signal);
+    const match = text.match(/\[[\s\S]*\]/);
+    let json: unknown = null;
+    try {
+      json = JSON.parse(match?.[0] ?? "");
+    } catch {
+      // tratado pela validação abaixo
+    }
+    const parsed = outlineSchema.safeParse(json);
+    if (!parsed.success) throw new Error("O provider não retornou uma estrutura de seções válida");
+    return parsed.data;
+  }
+
+  // Segunda etapa do modo longo: cada seção em sua própria chamada, com o outline e a seção anterior como contexto
+  static async streamSection(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    apiKey: string,
+    { outline, index, previousContent, ...options }: SectionOptions
+  ): Promise<string> {
+    return this.stream(provider, apiKey, this.buildSectionPrompt(scriptData, outline, index, previousContent), options);
+  }
+
+  // Modo longo completo: outline e depois cada seção em ordem, com a anterior como contexto
+  static async generateLongForm(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    apiKey: string,
+    { params = loadGenerationParams(provider), signal, onOutline, generateSection }: LongFormOptions = {}
+  ): Promise<Script> {
+    const outline = await this.generateOutline(provider, scriptData, apiKey, params, signal);
+    onOutline?.(outline);
+
+    const generate =
+      generateSection ??
+      ((outline: OutlineSection[], index: number, previousContent: string | undefined) =>
+        this.streamSection(provider, scriptData, apiKey, {
+          outline,
+          index,
+          previousContent,
+          params,
+          signal,
+          onChunk: () => undefined,
+        }));
+    const contents: string[] = [];
+    for (let index = 0; index < outline.length; index++) {
+      contents.push(await generate(outline, index, contents[index - 1]));
+    }
+    return scriptFromLongForm(outline.map((s, i) => ({ ...s, content: contents[i], status: "done" })));
+  }
+
+  // Traduz o documento estruturado mantendo seções e tempos do original
+  static async translateScript(
+    provider: AIProvider,
+    script: Script,
+    language: string,
+    apiKey: string,
+    params: GenerationParams = loadGenerationParams(provider),
+    signal?: AbortSignal
+  ): Promise<Script> {
+    const text = await this.complete(provider, apiKey, this.buildTranslationPrompt(script, language), params, signal);
+    const match = text.match(/\{[\s\S]*\}/);
+    let json: unknown = null;
+    try {
+      json = JSON.parse(match?.[0] ?? "");
+    } catch {
+      // tratado pela validação abaixo
+    }
+    const parsed = scriptSchema.safeParse(json);
+    if (!parsed.success || parsed.data.sections.length !== script.sections.length) {
+      throw new MalformedResponseError(`${provider.name}: a tradução não manteve a estrutura do roteiro`, provider.name);
+    }
+    return withSourceTiming(script, parsed.data);
+  }
+
+  // Reescreve o trecho selecionado no editor; a resposta substitui apenas a seleção
+  static async rewriteText(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    request: RewriteRequest,
+    apiKey: string,
+    params: GenerationParams = loadGenerationParams(provider),
+    signal?: AbortSignal
+  ): Promise<string> {
+    const locale = promptLocale(scriptData.language);
+    const instruction = request.instruction?.trim() || (request.action ? locale.rewriteActions[request.action] : "");
+    const prompt = locale.rewritePrompt({ ...request, instruction });
+    return cleanRewrite(await this.complete(provider, apiKey, prompt, params, signal));
+  }
+
+  // Gera de novo um único trecho, com a estrutura do roteiro atual e o trecho anterior como contexto
+  static async regenerateSegment(
+    provider: AIProvider,
+    scriptData: ScriptData,
+    script: Script,
+    key: SegmentKey,
+    apiKey: string,
+    params: GenerationParams = loadGenerationParams(provider),
+    signal?: AbortSignal
+  ): Promise<{ narration: string; visualCues: string[] }> {
+    const entries = scriptSegments(script);
+    const index = entries.findIndex((e) => e.key === key);
+    if (index < 0) throw new Error("Escreva algo no trecho antes de regenerá-lo");
+    const prompt = this.buildSectionPrompt(scriptData, scriptOutline(script), index, entries[index - 1]?.segment.narration);
+    return splitCues(await this.complete(provider, apiKey, prompt, params, signal));
+  }
+
+  private static async complete(
+    provider: AIProvider,
+    apiKey: string,
+    prompt: string,
+    params: GenerationParams,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const adapter = getAdapter(provider.id);
+    const system = this.systemPrompt();
+    const response = await this.send(provider, apiKey, { prompt, system, params }, signal, COMPLETE_TIMEOUT_MS);
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new MalformedResponseError(`${provider.name}: resposta não é JSON`, provider.name, response.status);
+    }
+    const text = adapter.parseResponse(data);
+    this.recordTokens(provider, apiKey, params, adapter.parseUsage(data), `${system ?? ""}${prompt}`, text);
+    return text;
+  }
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com DeepSeek");
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-
-  private static async callPerplexity(apiKey: string, prompt: string): Promise<string> {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "llama-3.1-sonar-small-128k-online",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
+  private static async stream(
+    provider: AIProvider,
+    apiKey: string,
+    prompt: string,
+    { onChunk, signal, params = loadGenerationParams(provider) }: StreamOptions
+  ): Promise<string> {
+    const adapter = getAdapter(provider.id);
+    const system = this.systemPrompt();
+    const response = await this.send(provider, apiKey, { prompt, system, params, stream: true }, signal, STREAM_TIMEOUT_MS);
+
+    let text = "";
+    let usage: Partial<TokenUsage> = {};
+    try {
+      await readServerSentEvents(
+        response,
+        (data) => {
+          usage = { ...usage, ...adapter.parseStreamUsage(data) };
+          const chunk = adapter.parseStreamEvent(data);
+          if (!chunk) return;
+          text += chunk;
+          onChunk(chunk);
+        },
+        signal
+      );
+    } finally {
+      // Streams interrompidos também são cobrados pelo que já foi gerado
+      this.recordTokens(provider, apiKey, params, usage, `${system ?? ""}${prompt}`, text);
+    }
+    return text;
+  }
+
+  // Perfil do canal ativo, enviado como instrução de sistema em todas as chamadas
+  private static systemPrompt(): string | undefined {
+    const profile = loadActiveProfile();
+    return profile && buildSystemPrompt(profile);
+  }
+
+  // Registra o consumo informado pelo provider, estimando os campos que ele não enviou
+  private static recordTokens(
+    provider: AIProvider,
+    apiKey: string,
+    params: GenerationParams,
+    reported: Partial<TokenUsage> | null,
+    prompt: string,
+    output: string
+  ) {
+    const usage: TokenUsage = {
+      promptTokens: reported?.promptTokens ?? estimateTokens(prompt),
+      completionTokens: reported?.completionTokens ?? estimateTokens(output),
+    };
+    recordUsage({
+      service: "script",
+      provider: provider.name,
+      model: params.model,
+      keySlot: apiKeySlotOf(apiKey),
+      ...usage,
+      estimated: reported?.promptTokens === undefined || reported?.completionTokens === undefined,
+      costUsd: tokenCost(getModel(provider, params.model)?.pricing, usage),
     });
+  }
+
+  // No modo proxy o servidor monta a requisição com a chave dele e devolve a resposta do provider como veio
+  private static async send(
+    provider: AIProvider,
+    apiKey: string,
+    request: GenerationRequest,
+    signal: AbortSignal | undefined,
+    timeoutMs: number
+  ): Promise<Response> {
+    const { url, headers, body } = isProxied(provider)
+      ? buildProxyRequest("/api/generate/script", { provider: provider.id, request })
+      : getAdapter(provider.id).buildRequest(apiKey, request);
+    let response: Response;
+    try {
+      response = await httpRequest(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal,
+        timeoutMs,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new NetworkError(
+        error instanceof HttpTimeoutError ? `${provider.name}: tempo esgotado` : `${provider.name}: falha de conexão`,
+        provider.name,
+        undefined,
+        error instanceof Error ? error.message : undefined
+      );
+    }
+
+    if (!response.ok) {
+      throw getAdapter(provider.id).mapError(response.status, await response.text(), response.headers);
+    }
+    return response;
+  }
+
+  private static describeScriptData(scriptData: ScriptData): string {
+    return renderSpecifications(scriptData);
+  }
+
+  // O conteúdo vem do template do estilo e idioma; o formato de resposta é fixo porque o documento estruturado depende dele
+  private static buildPrompt(scriptData: ScriptData): string {
+    const template = resolveTemplate(scriptData.style, scriptData.language);
+    return `
+${renderTemplate(template.body, scriptData)}
 
-    if (!response.ok) throw new Error("Erro ao gerar roteiro com Perplexity");
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
+${promptLocale(scriptData.language).responseFormat}
+`;
+  }
+
+  private static buildTranslationPrompt(script: Script, language: string): string {
+    const locale = promptLocale(language);
+    return locale.translatePrompt(JSON.stringify(script, null, 2), locale.languageName(getLanguage(language)));
+  }
+
+  private static buildOutlinePrompt(scriptData: ScriptData): string {
+    return promptLocale(scriptData.language).outlinePrompt(this.describeScriptData(scriptData));
+  }
+
+  private static buildSectionPrompt(
+    scriptData: ScriptData,
+    outline: OutlineSection[],
+    index: number,
+    previousContent?: string
+  ): string {
+    const structure = outline
+      .map((s, i) => `${i + 1}. [${s.start} - ${s.end}] ${s.title} — ${s.summary}`)
+      .join("\n");
+
+    return promptLocale(scriptData.language).sectionPrompt({
+      specifications: this.describeScriptData(scriptData),
+      structure,
+      section: outline[index],
+      index,
+      previousContent: previousContent?.slice(-1500),
+    });
   }
-}
\ No newline at end of file
+}
@@ -1,18 +1,34 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Volume2, Download, Loader2, Settings } from "lucide-react";
+import { Script, ScriptTranslation } from "@/types/script";
+import { ProjectAudio } from "@/types/project";
+import { narrationText } from "@/lib/script-document";
+import { getLanguage, textDirection } from "@/lib/languages";
+import { saveVoiceForLanguage, speechLanguageCode, voiceForLanguage } from "@/lib/voice-preferences";
+import { hasApiKey, withApiKey } from "@/lib/api-keys";
+import { ELEVENLABS_PROVIDER } from "@/lib/service-providers";
+import { APIKeyModal } from "@/components/ai/APIKeyModal";
+import { generateElevenLabsSpeech } from "./ElevenLabsService";
 
 interface AudioGenerationSectionProps {
-  script: string;
+  script: Script | null;
+  language?: string;
+  translations?: ScriptTranslation[];
+  // Idioma da tradução a narrar; vazio usa o roteiro original
+  selectedLanguage?: string;
+  onSelectLanguage?: (language: string) => void;
+  audio: ProjectAudio | null;
+  onAudioChange: (audio: ProjectAudio | null) => void;
 }
 
-const ELEVEN_KEY_NAME = "elevenlabs_api_key";
+const ORIGINAL_VERSION = "original";
 
 const DEFAULT_VOICES: { id: string; name: string }[] = [
   { name: "Aria", id: "9BWtsMINqrJLrRacOk9x" },
@@ -39,50 +55,73 @@ const DEFAULT_VOICES: { id: string; name: string }[] = [
 
 const MODELS = [
   { id: "eleven_multilingual_v2", name: "Eleven Multilingual v2" },
-  { id: "eleven_turbo_v2_5", name: "Eleven Turbo v2.5" },
-  { id: "eleven_turbo_v2", name: "Eleven Turbo v2" },
+  { id: "eleven_turbo_v2_5", name: "Eleven Turbo v2.5", languageCode: true },
+  { id: "eleven_turbo_v2", name: "Eleven Turbo v2", englishOnly: true },
 ];
 
-export function AudioGenerationSection({ script }: AudioGenerationSectionProps) {
+export function AudioGenerationSection({
+  script,
+  language = "",
+  translations = [],
+  selectedLanguage = "",
+  onSelectLanguage,
+  audio,
+  onAudioChange,
+}: AudioGenerationSectionProps) {
   const { toast } = useToast();
-  const [apiKey, setApiKey] = useState<string>(localStorage.getItem(ELEVEN_KEY_NAME) || "");
-  const [voiceId, setVoiceId] = useState<string>(DEFAULT_VOICES[0].id);
+  const translation = translations.find((t) => t.language === selectedLanguage);
+  const activeScript = translation?.script ?? script;
+  const activeLanguage = translation?.language ?? language;
+  const isEnglish = speechLanguageCode(activeLanguage) === "en";
+  const models = MODELS.filter((m) => isEnglish || !m.englishOnly);
+
+  const [showKeyModal, setShowKeyModal] = useState(false);
+  const [voiceId, setVoiceId] = useState<string>(() => voiceForLanguage(activeLanguage) ?? DEFAULT_VOICES[0].id);
   const [modelId, setModelId] = useState<string>(MODELS[0].id);
-  const [text, setText] = useState<string>(script || "");
+  const [text, setText] = useState<string>(activeScript ? narrationText(activeScript) : "");
   const [audioUrl, setAudioUrl] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [importedName, setImportedName] = useState<string>("");
+
+  // O áudio fica salvo no projeto como Blob; a URL só existe enquanto ele está na tela
+  useEffect(() => {
+    if (!audio) {
+      setAudioUrl("");
+      return;
+    }
+    const url = URL.createObjectURL(audio.blob);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio]);
 
   const onImportClick = () => fileInputRef.current?.click();
-  const onFileChange = (e: any) => {
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    const url = URL.createObjectURL(file);
-    setAudioUrl((prev) => {
-      if (prev) {
-        try { URL.revokeObjectURL(prev); } catch {}
-      }
-      return url;
-    });
-    setImportedName(file.name);
+    onAudioChange({ blob: file, fileName: file.name, language: activeLanguage, createdAt: Date.now() });
     toast({ title: "Áudio importado", description: file.name });
   };
 
   useEffect(() => {
-    setText(script || "");
-  }, [script]);
+    setText(activeScript ? narrationText(activeScript) : "");
+  }, [activeScript]);
 
-  const saveKey = () => {
-    localStorage.setItem(ELEVEN_KEY_NAME, apiKey.trim());
-    toast({ title: "API salva", description: "ElevenLabs" });
+  // Cada idioma usa a última voz escolhida para ele; modelos só em inglês não servem para as traduções
+  useEffect(() => {
+    setVoiceId(voiceForLanguage(activeLanguage) ?? DEFAULT_VOICES[0].id);
+    if (!isEnglish) setModelId((current) => (MODELS.find((m) => m.id === current)?.englishOnly ? MODELS[0].id : current));
+  }, [activeLanguage, isEnglish]);
+
+  const changeVoice = (id: string) => {
+    setVoiceId(id);
+    saveVoiceForLanguage(activeLanguage, id);
   };
 
   const canGenerate = useMemo(() => Boolean(text && text.trim().length > 0), [text]);
 
   const generateAudio = async () => {
-    const key = localStorage.getItem(ELEVEN_KEY_NAME);
-    if (!key) {
+    if (!hasApiKey(ELEVENLABS_PROVIDER)) {
+      setShowKeyModal(true);
       toast({ title: "API key necessária", description: "Informe sua API do ElevenLabs.", variant: "destructive" });
       return;
     }
@@ -92,29 +131,19 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
     }
 
     setIsLoading(true);
-    setAudioUrl("");
     try {
-      const res = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-        method: "POST",
-        headers: {
-          "xi-api-key": key,
-          "Content-Type": "application/json",
-          Accept: "audio/mpeg",
-        },
-        body: JSON.stringify({
-          text,
-          model_id: modelId,
-        }),
+      const languageCode = MODELS.find((m) => m.id === modelId)?.languageCode ? speechLanguageCode(activeLanguage) : undefined;
+      const blob = await withApiKey(ELEVENLABS_PROVIDER, (apiKey) =>
+        generateElevenLabsSpeech(apiKey, { text, voiceId, modelId, languageCode })
+      );
+      onAudioChange({
+        blob,
+        fileName: `narracao-${getLanguage(activeLanguage).code}.mp3`,
+        language: activeLanguage,
+        voiceId,
+        modelId,
+        createdAt: Date.now(),
       });
-
-      if (!res.ok) {
-        const errText = await res.text();
-        throw new Error(errText || `Erro ${res.status}`);
-      }
-
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      setAudioUrl(url);
       toast({ title: "Áudio gerado", description: "Reprodução pronta." });
     } catch (e: any) {
       toast({ title: "Falha ao gerar áudio", description: e?.message || "Erro", variant: "destructive" });
@@ -133,32 +162,47 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
               Gerar Áudio do Roteiro
             </CardTitle>
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" onClick={saveKey}>
-                <Settings className="w-4 h-4 mr-1" /> Salvar API
+              <Button variant="outline" size="sm" onClick={() => setShowKeyModal(true)}>
+                <Settings className="w-4 h-4 mr-1" /> API
               </Button>
             </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="bg-muted/30 border rounded-lg p-4 space-y-3">
-            <div>
-              <Label htmlFor="eleven-api">ElevenLabs API Key</Label>
-              <Input
-                id="eleven-api"
-                type="password"
-                placeholder="Cole sua API key do ElevenLabs"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-              />
-              <p className="text-xs text-muted-foreground mt-1">
-                {localStorage.getItem(ELEVEN_KEY_NAME) ? "API key configurada" : "Cole sua API key para habilitar a geração de áudio."}
-              </p>
-            </div>
+            <p className="text-xs text-muted-foreground">
+              {hasApiKey(ELEVENLABS_PROVIDER) ? "API key do ElevenLabs configurada" : "Configure a API key do ElevenLabs para gerar áudio"} ·{" "}
+              <Link to="/settings/keys" className="text-primary underline">
+                Gerenciar chaves
+              </Link>
+            </p>
+
+            {translations.length > 0 && (
+              <div>
+                <Label>Versão do roteiro</Label>
+                <Select
+                  value={translation ? translation.language : ORIGINAL_VERSION}
+                  onValueChange={(value) => onSelectLanguage?.(value === ORIGINAL_VERSION ? "" : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    <SelectItem value={ORIGINAL_VERSION}>Original ({getLanguage(language).label})</SelectItem>
+                    {translations.map((t) => (
+                      <SelectItem key={t.language} value={t.language}>
+                        {getLanguage(t.language).label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               <div>
-                <Label>Voz</Label>
-                <Select value={voiceId} onValueChange={setVoiceId}>
+                <Label>Voz ({getLanguage(activeLanguage).label})</Label>
+                <Select value={voiceId} onValueChange={changeVoice}>
                   <SelectTrigger>
                     <SelectValue placeholder="Selecione a voz" />
                   </SelectTrigger>
@@ -177,7 +221,7 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
                     <SelectValue placeholder="Selecione o modelo" />
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border">
-                    {MODELS.map((m) => (
+                    {models.map((m) => (
                       <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
                     ))}
                   </SelectContent>
@@ -194,6 +238,8 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
               value={text}
               onChange={(e) => setText(e.target.value)}
               className="min-h-[160px]"
+              lang={activeLanguage || undefined}
+              dir={textDirection(activeLanguage)}
             />
           </div>
 
@@ -210,15 +256,15 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
                 "Gerar Áudio"
               )}
             </Button>
-            {audioUrl && (
-              <a href={audioUrl} download>
+            {audio && audioUrl && (
+              <a href={audioUrl} download={audio.fileName}>
                 <Button variant="outline">
                   <Download className="w-4 h-4 mr-2" /> Baixar Áudio
                 </Button>
               </a>
             )}
-            {importedName && (
-              <span className="text-xs text-muted-foreground truncate max-w-[160px]">Arquivo: {importedName}</span>
+            {audio && !audio.voiceId && (
+              <span className="text-xs text-muted-foreground truncate max-w-[160px]">Arquivo: {audio.fileName}</span>
             )}
           </div>
 
@@ -229,6 +275,13 @@ export function AudioGenerationSection({ script }: AudioGenerationSectionProps)
           )}
         </CardContent>
       </Card>
+
+      <APIKeyModal
+        isOpen={showKeyModal}
+        onClose={() => setShowKeyModal(false)}
+        onSave={() => {}}
+        provider={ELEVENLABS_PROVIDER}
+      />
     </section>
   );
 }
@@ -0,0 +1,80 @@
+import { httpRequest } from "@/lib/http-client";
+import { characterCost } from "@/lib/usage-cost";
+import { recordUsage } from "@/lib/usage-ledger";
+import { apiKeySlotOf } from "@/lib/api-keys";
+import { providerErrorFromResponse } from "@/lib/provider-errors";
+import { buildProxyRequest, isProxied } from "@/lib/proxy-mode";
+import { ELEVENLABS_PROVIDER } from "@/lib/service-providers";
+
+export interface GenerateSpeechOptions {
+  text: string;
+  voiceId: string;
+  modelId: string;
+  // Força o idioma da pronúncia nos modelos que aceitam language_code
+  languageCode?: string;
+  signal?: AbortSignal;
+}
+
+const ELEVENLABS_API = "https://api.elevenlabs.io/v1";
+
+// Roteiros longos levam tempo para sintetizar antes do primeiro byte
+const SPEECH_TIMEOUT_MS = 120000;
+
+// Chamada direta à API; o proxy usa a mesma função com a chave do servidor e repassa a resposta
+export function requestElevenLabsSpeech(apiKey: string, options: GenerateSpeechOptions): Promise<Response> {
+  const { text, voiceId, modelId, languageCode, signal } = options;
+  return httpRequest(`${ELEVENLABS_API}/text-to-speech/${voiceId}`, {
+    method: "POST",
+    headers: {
+      "xi-api-key": apiKey,
+      "Content-Type": "application/json",
+      Accept: "audio/mpeg",
+    },
+    body: JSON.stringify({
+      text,
+      model_id: modelId,
+      ...(languageCode && { language_code: languageCode }),
+    }),
+    signal,
+    timeoutMs: SPEECH_TIMEOUT_MS,
+  });
+}
+
+export async function generateElevenLabsSpeech(apiKey: string, options: GenerateSpeechOptions): Promise<Blob> {
+  const { text, modelId } = options;
+  let res: Response;
+  if (isProxied(ELEVENLABS_PROVIDER)) {
+    const { signal, ...body } = options;
+    const request = buildProxyRequest("/api/generate/audio", body);
+    res = await httpRequest(request.url, {
+      method: "POST",
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal,
+      timeoutMs: SPEECH_TIMEOUT_MS,
+      // O proxy já repete a chamada à ElevenLabs quando ela é limitada (429)
+      retries: 0,
+    });
+  } else {
+    res = await requestElevenLabsSpeech(apiKey, options);
+  }
+
+  if (!res.ok) {
+    throw providerErrorFromResponse(ELEVENLABS_PROVIDER.name, res.status, await res.text(), res.headers);
+  }
+
+  // O header só fica visível se a API o expuser via CORS; senão conta os caracteres enviados
+  const reported = Number(res.headers.get("character-cost"));
+  const characters = reported > 0 ? reported : text.length;
+  recordUsage({
+    service: "audio",
+    provider: "ElevenLabs",
+    model: modelId,
+    keySlot: apiKeySlotOf(apiKey),
+    characters,
+    estimated: !(reported > 0),
+    costUsd: characterCost(characters),
+  });
+
+  return res.blob();
+}
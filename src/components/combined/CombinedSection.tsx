@@ -6,15 +6,27 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Image as ImageIcon, Volume2, FileDown } from "lucide-react";
+import { Script } from "@/types/script";
+import { renderScript, scriptSegments } from "@/lib/script-document";
+import { DEFAULT_LANGUAGE, textDirection } from "@/lib/languages";
 
 interface CombinedSectionProps {
-  script: string;
+  script: Script | null;
+  language?: string;
 }
 
-export function CombinedSection({ script }: CombinedSectionProps) {
+const escapeHtml = (value: string) => value.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const paragraphs = (value: string) =>
+  value
+    .split('\n')
+    .map((p) => `<p>${escapeHtml(p)}</p>`)
+    .join("\n");
+
+export function CombinedSection({ script, language = DEFAULT_LANGUAGE }: CombinedSectionProps) {
   const { toast } = useToast();
 
-  const [text, setText] = useState<string>(script || "");
+  const [text, setText] = useState<string>(script ? renderScript(script) : "");
 
   const [imageUrl, setImageUrl] = useState<string>("");
   const [imageFileName, setImageFileName] = useState<string>("");
@@ -27,7 +39,7 @@ export function CombinedSection({ script }: CombinedSectionProps) {
   const audioInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    setText(script || "");
+    setText(script ? renderScript(script) : "");
   }, [script]);
 
   const pickImage = () => imageInputRef.current?.click();
@@ -83,13 +95,15 @@ export function CombinedSection({ script }: CombinedSectionProps) {
       return;
     }
 
-    const safeText = text
-      .split('\n')
-      .map((p) => `<p>${p.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</p>`) 
-      .join("\n");
+    // Sem edições manuais, exporta as seções reais do roteiro; caso contrário, o texto editado
+    const safeText = script && text === renderScript(script)
+      ? scriptSegments(script)
+          .map(({ title, segment }) => `<section><h2>${escapeHtml(title)}</h2>\n${paragraphs(segment.narration)}</section>`)
+          .join("\n")
+      : paragraphs(text);
 
     const html = `<!doctype html>
-<html lang="pt-br">
+<html lang="${language || DEFAULT_LANGUAGE}" dir="${textDirection(language)}">
 <head>
   <meta charset="utf-8" />
   <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -148,6 +162,7 @@ export function CombinedSection({ script }: CombinedSectionProps) {
               value={text}
               onChange={(e) => setText(e.target.value)}
               placeholder="Seu roteiro aparecerá aqui. Você pode editar."
+              dir={textDirection(language)}
               className="min-h-[160px]"
             />
           </div>
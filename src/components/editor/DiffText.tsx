@@ -0,0 +1,25 @@
+import { DiffPart } from "@/lib/text-diff";
+import { cn } from "@/lib/utils";
+
+interface DiffTextProps {
+  parts: DiffPart[];
+  className?: string;
+}
+
+export const DiffText = ({ parts, className }: DiffTextProps) => (
+  <span className={cn("whitespace-pre-wrap", className)}>
+    {parts.map((part, i) =>
+      part.type === "equal" ? (
+        <span key={i}>{part.value}</span>
+      ) : part.type === "delete" ? (
+        <del key={i} className="bg-destructive/20 text-destructive line-through">
+          {part.value}
+        </del>
+      ) : (
+        <ins key={i} className="bg-green-500/20 text-green-500 no-underline">
+          {part.value}
+        </ins>
+      )
+    )}
+  </span>
+);
@@ -0,0 +1,319 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Check, Loader2, Redo2, RefreshCw, Square, Undo2, Wand2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AIProvider, GenerationParams, ScriptData } from "@/types/ai-providers";
+import { Script } from "@/types/script";
+import { SegmentKey, allSegments, formatTimestamp, getSegment, updateSegment } from "@/lib/script-document";
+import { RewriteAction } from "@/lib/prompt-locales";
+import { diffWords } from "@/lib/text-diff";
+import { describeError } from "@/lib/provider-errors";
+import { hasApiKey, withApiKey } from "@/lib/api-keys";
+import { textDirection } from "@/lib/languages";
+import { ScriptGeneratorAPI } from "@/components/ai/ScriptGeneratorAPI";
+import { DiffText } from "./DiffText";
+
+interface ScriptEditorProps {
+  script: Script;
+  scriptData: ScriptData;
+  provider: AIProvider;
+  params: GenerationParams;
+  onChange: (script: Script) => void;
+}
+
+interface TextSelection {
+  key: SegmentKey;
+  start: number;
+  end: number;
+}
+
+// Resposta do provider aguardando aceite; substitui o intervalo [start, end) da narração
+interface Suggestion extends TextSelection {
+  replacement: string;
+  visualCues?: string[];
+}
+
+const REWRITE_ACTIONS: { action: RewriteAction; label: string }[] = [
+  { action: "shorten", label: "Encurtar" },
+  { action: "punchier", label: "Mais impactante" },
+  { action: "expand", label: "Expandir" },
+  { action: "example", label: "Adicionar exemplo" },
+];
+
+const UNDO_LIMIT = 50;
+
+export const ScriptEditor = ({ script, scriptData, provider, params, onChange }: ScriptEditorProps) => {
+  const { toast } = useToast();
+  const [undoStack, setUndoStack] = useState<Script[]>([]);
+  const [redoStack, setRedoStack] = useState<Script[]>([]);
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [busyKey, setBusyKey] = useState<SegmentKey | null>(null);
+  const [instruction, setInstruction] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  // Campo sendo digitado; a digitação inteira vira um único passo de desfazer
+  const typingRef = useRef<string | null>(null);
+
+  const language = scriptData.language;
+  const busy = busyKey !== null;
+
+  const snapshot = () => {
+    setUndoStack((prev) => [...prev, script].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+  };
+
+  const commit = (next: Script) => {
+    snapshot();
+    onChange(next);
+  };
+
+  const edit = (field: string, next: Script) => {
+    if (typingRef.current !== field) {
+      snapshot();
+      typingRef.current = field;
+    }
+    onChange(next);
+  };
+
+  const undo = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack([...redoStack, script]);
+    setSuggestion(null);
+    onChange(previous);
+  };
+
+  const redo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([...undoStack, script]);
+    setSuggestion(null);
+    onChange(next);
+  };
+
+  const run = async (key: SegmentKey, task: (apiKey: string, signal: AbortSignal) => Promise<void>) => {
+    if (!hasApiKey(provider)) {
+      toast({ title: "API key necessária", description: `Configure a API do ${provider.name} para reescrever.`, variant: "destructive" });
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusyKey(key);
+    try {
+      await withApiKey(provider, (apiKey) => task(apiKey, controller.signal));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Erro:", error);
+      toast({ ...describeError(error), variant: "destructive" });
+    } finally {
+      abortRef.current = null;
+      setBusyKey(null);
+    }
+  };
+
+  const rewrite = (action?: RewriteAction) => {
+    if (!selection) return;
+    const { key, start, end } = selection;
+    const entry = allSegments(script).find((e) => e.key === key);
+    if (!entry) return;
+
+    run(key, async (apiKey, signal) => {
+      const replacement = await ScriptGeneratorAPI.rewriteText(
+        provider,
+        scriptData,
+        {
+          title: entry.title,
+          context: entry.segment.narration,
+          selection: entry.segment.narration.slice(start, end),
+          action,
+          instruction: action ? undefined : instruction,
+        },
+        apiKey,
+        params,
+        signal
+      );
+      setSuggestion({ key, start, end, replacement });
+    });
+  };
+
+  const regenerate = (key: SegmentKey) => {
+    run(key, async (apiKey, signal) => {
+      const result = await ScriptGeneratorAPI.regenerateSegment(provider, scriptData, script, key, apiKey, params, signal);
+      const { narration } = getSegment(script, key);
+      setSuggestion({ key, start: 0, end: narration.length, replacement: result.narration, visualCues: result.visualCues });
+    });
+  };
+
+  const accept = () => {
+    if (!suggestion) return;
+    const { key, start, end, replacement, visualCues } = suggestion;
+    const { narration } = getSegment(script, key);
+    commit(
+      updateSegment(script, key, {
+        narration: narration.slice(0, start) + replacement + narration.slice(end),
+        ...(visualCues && { visualCues }),
+      })
+    );
+    setSuggestion(null);
+    setSelection(null);
+  };
+
+  const selectedEntry = selection && allSegments(script).find((e) => e.key === selection.key);
+  let elapsed = 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="sticky top-0 z-10 bg-card border rounded-lg p-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={undo} disabled={!undoStack.length || busy}>
+            <Undo2 className="w-4 h-4 mr-1" />
+            Desfazer
+          </Button>
+          <Button variant="outline" size="sm" onClick={redo} disabled={!redoStack.length || busy}>
+            <Redo2 className="w-4 h-4 mr-1" />
+            Refazer
+          </Button>
+          <span className="text-xs text-muted-foreground truncate">
+            {selectedEntry
+              ? `${selection.end - selection.start} caracteres selecionados em "${selectedEntry.title}"`
+              : "Selecione um trecho da narração para reescrever"}
+          </span>
+          {busy && (
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => abortRef.current?.abort()}>
+              <Square className="w-4 h-4 mr-1" />
+              Parar
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {REWRITE_ACTIONS.map(({ action, label }) => (
+            <Button
+              key={action}
+              variant="secondary"
+              size="sm"
+              disabled={!selection || busy || suggestion !== null}
+              onClick={() => rewrite(action)}
+            >
+              {label}
+            </Button>
+          ))}
+          <Input
+            className="h-9 flex-1 min-w-[180px]"
+            placeholder="Ou descreva como reescrever..."
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && instruction.trim() && !busy && !suggestion && rewrite()}
+          />
+          <Button
+            size="sm"
+            disabled={!selection || !instruction.trim() || busy || suggestion !== null}
+            onClick={() => rewrite()}
+          >
+            <Wand2 className="w-4 h-4 mr-1" />
+            Aplicar
+          </Button>
+        </div>
+      </div>
+
+      {allSegments(script).map(({ key, title, segment }) => {
+        const start = elapsed;
+        elapsed += segment.estimatedSeconds;
+        const pending = suggestion?.key === key ? suggestion : null;
+
+        return (
+          <div key={String(key)} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              {typeof key === "number" ? (
+                <Input
+                  className="h-8 font-medium"
+                  value={title}
+                  onChange={(e) => edit(`${key}:title`, updateSegment(script, key, { title: e.target.value }))}
+                  onBlur={() => (typingRef.current = null)}
+                />
+              ) : (
+                <span className="text-sm font-medium flex-1">{title}</span>
+              )}
+              <span className="text-xs text-muted-foreground font-mono">[{formatTimestamp(start)}]</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busy || pending !== null || !segment.narration.trim()}
+                onClick={() => regenerate(key)}
+              >
+                {busyKey === key ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+                Regenerar
+              </Button>
+            </div>
+
+            {pending ? (
+              <div className="space-y-2">
+                <div className="text-sm bg-muted/50 rounded-lg p-3" lang={language || undefined} dir={textDirection(language)}>
+                  <span className="whitespace-pre-wrap">{segment.narration.slice(0, pending.start)}</span>
+                  <DiffText parts={diffWords(segment.narration.slice(pending.start, pending.end), pending.replacement)} />
+                  <span className="whitespace-pre-wrap">{segment.narration.slice(pending.end)}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={accept}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Aceitar
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setSuggestion(null)}>
+                    <X className="w-4 h-4 mr-1" />
+                    Descartar
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Textarea
+                rows={Math.max(3, Math.ceil(segment.narration.length / 90))}
+                className="text-sm"
+                lang={language || undefined}
+                dir={textDirection(language)}
+                value={segment.narration}
+                disabled={busyKey === key}
+                onChange={(e) => edit(`${key}:narration`, updateSegment(script, key, { narration: e.target.value }))}
+                onBlur={() => (typingRef.current = null)}
+                onSelect={(e) => {
+                  const { selectionStart, selectionEnd } = e.currentTarget;
+                  // Cursor sem seleção só descarta a seleção se ela era deste trecho
+                  if (selectionStart !== selectionEnd) setSelection({ key, start: selectionStart, end: selectionEnd });
+                  else if (selection?.key === key) setSelection(null);
+                }}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center gap-1">
+              {segment.visualCues.map((cue, i) => (
+                <Badge key={i} variant="secondary" className="gap-1">
+                  {cue}
+                  <button
+                    type="button"
+                    aria-label="Remover indicação visual"
+                    onClick={() => commit(updateSegment(script, key, { visualCues: segment.visualCues.filter((_, j) => j !== i) }))}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+              <Input
+                className="h-7 text-xs flex-1 min-w-[160px]"
+                placeholder="Nova indicação visual (Enter para adicionar)"
+                onKeyDown={(e) => {
+                  const value = e.currentTarget.value.trim();
+                  if (e.key !== "Enter" || !value) return;
+                  commit(updateSegment(script, key, { visualCues: [...segment.visualCues, value] }));
+                  e.currentTarget.value = "";
+                }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DiffPart, diffLines } from "@/lib/text-diff";
+import { renderScript } from "@/lib/script-document";
+import { textDirection } from "@/lib/languages";
+import { ScriptVersion, describeVersion } from "@/lib/script-versions";
+import { cn } from "@/lib/utils";
+import { DiffText } from "@/components/editor/DiffText";
+
+interface VersionDiffProps {
+  before: ScriptVersion;
+  after: ScriptVersion;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DiffRow {
+  left?: string;
+  right?: string;
+  changed: boolean;
+}
+
+const lines = (value: string) => value.replace(/\n$/, "").split("\n");
+
+// Pareia linhas removidas e adicionadas na mesma altura, como nos diffs lado a lado tradicionais
+function sideBySideRows(parts: DiffPart[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i], changed: true });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of parts) {
+    if (part.type === "delete") removed.push(...lines(part.value));
+    else if (part.type === "insert") added.push(...lines(part.value));
+    else {
+      flush();
+      lines(part.value).forEach((line) => rows.push({ left: line, right: line, changed: false }));
+    }
+  }
+  flush();
+  return rows;
+}
+
+export const VersionDiff = ({ before, after, open, onOpenChange }: VersionDiffProps) => {
+  const [mode, setMode] = useState("inline");
+  const parts = diffLines(renderScript(before.script), renderScript(after.script));
+  const changes = parts.filter((p) => p.type !== "equal").length;
+  const dir = textDirection(after.scriptData.language);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comparar versões</DialogTitle>
+          <DialogDescription>
+            {describeVersion(before)} → {describeVersion(after)}
+            {changes === 0 && " · Sem diferenças no texto"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={setMode}>
+          <TabsList>
+            <TabsTrigger value="inline">Inline</TabsTrigger>
+            <TabsTrigger value="side">Lado a lado</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {mode === "inline" ? (
+          <div className="bg-muted/50 rounded-lg p-4 text-sm font-mono" dir={dir}>
+            <DiffText parts={parts} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-x-2 text-sm font-mono bg-muted/50 rounded-lg p-4" dir={dir}>
+            {sideBySideRows(parts).map((row, i) => [
+              <div
+                key={`l${i}`}
+                className={cn("whitespace-pre-wrap min-h-[1.25rem]", row.changed && row.left !== undefined && "bg-destructive/20")}
+              >
+                {row.left}
+              </div>,
+              <div
+                key={`r${i}`}
+                className={cn("whitespace-pre-wrap min-h-[1.25rem]", row.changed && row.right !== undefined && "bg-green-500/20")}
+              >
+                {row.right}
+              </div>,
+            ])}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
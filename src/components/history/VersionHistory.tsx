@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { GitBranch, GitCompare, RotateCcw, Trash2 } from "lucide-react";
+import { useScriptVersions } from "@/hooks/use-script-versions";
+import { ORIGIN_LABEL, ScriptVersion, clearVersions } from "@/lib/script-versions";
+import { formatTimestamp, scriptDuration } from "@/lib/script-document";
+import { VersionDiff } from "./VersionDiff";
+
+interface VersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  headId?: string;
+  onRestore: (version: ScriptVersion) => void;
+  onBranch: (version: ScriptVersion) => void;
+}
+
+export const VersionHistory = ({ open, onOpenChange, headId, onRestore, onBranch }: VersionHistoryProps) => {
+  const versions = useScriptVersions();
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+
+  // A mais antiga fica à esquerda do diff, independente da ordem de seleção
+  const compared = versions.filter((v) => compareIds.includes(v.id));
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds((prev) => (checked ? [...prev, id].slice(-2) : prev.filter((c) => c !== id)));
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Histórico de versões</SheetTitle>
+          <SheetDescription>
+            Cada geração e edição fica salva. Marque duas versões para comparar.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 my-4">
+          <Button size="sm" disabled={compared.length !== 2} onClick={() => setShowDiff(true)}>
+            <GitCompare className="w-4 h-4 mr-2" />
+            Comparar
+          </Button>
+          {versions.length > 0 && (
+            <Button size="sm" variant="ghost" className="ml-auto" onClick={clearVersions}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Limpar
+            </Button>
+          )}
+        </div>
+
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma versão salva ainda.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...versions].reverse().map((version) => (
+              <li key={version.id} className="border rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={compareIds.includes(version.id)}
+                    onCheckedChange={(checked) => toggleCompare(version.id, checked === true)}
+                  />
+                  <span className="font-medium">{ORIGIN_LABEL[version.origin]}</span>
+                  <Badge variant="outline">{version.branch}</Badge>
+                  {version.id === headId && <Badge>Atual</Badge>}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {new Date(version.timestamp).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {version.scriptData.topic || "Sem tópico"} · {version.provider} · {version.model}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {version.script.sections.length} seções · ~{formatTimestamp(scriptDuration(version.script))}
+                  {version.note && ` · ${version.note}`}
+                </p>
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" variant="outline" disabled={version.id === headId} onClick={() => onRestore(version)}>
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restaurar
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onBranch(version)}>
+                    <GitBranch className="w-3 h-3 mr-1" />
+                    Ramificar
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {showDiff && compared.length === 2 && (
+          <VersionDiff before={compared[0]} after={compared[1]} open={showDiff} onOpenChange={setShowDiff} />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
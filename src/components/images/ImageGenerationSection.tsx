@@ -1,195 +1,177 @@
-import { useEffect, useMemo, useState } from "react";
+import { Dispatch, SetStateAction, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, Image as ImageIcon, Settings } from "lucide-react";
+import { Loader2, Image as ImageIcon, Settings, Clapperboard } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { APIKeyModal } from "@/components/ai/APIKeyModal";
-import { AIProvider } from "@/types/ai-providers";
+import { Script, ScriptSection } from "@/types/script";
+import { ImageItem } from "@/types/project";
+import { hasApiKey, withApiKey } from "@/lib/api-keys";
+import { KLING_PROVIDER, LEONARDO_PROVIDER, MIDJOURNEY_PROVIDER } from "@/lib/service-providers";
 import { generateLeonardoImage } from "./LeonardoImageService";
+import { generateKlingImage, generateKlingVideo } from "./KlingService";
 
 interface ImageGenerationSectionProps {
-  script: string;
+  script: Script | null;
+  // Itens ficam no projeto; o estado de cada geração em andamento fica só aqui
+  items: ImageItem[];
+  onItemsChange: Dispatch<SetStateAction<ImageItem[]>>;
 }
 
-interface TopicItem {
-  id: string;
-  title: string;
-  prompt: string;
-  imageUrl?: string;
+interface ItemStatus {
   loading?: boolean;
   error?: string;
 }
 
-const LEONARDO_PROVIDER: AIProvider = {
-  id: "leonardo",
-  name: "Leonardo AI",
-  icon: "🎨",
-  endpoint: "https://cloud.leonardo.ai/api/rest/v1",
-  keyName: "leonardo_api_key",
-  getApiKeyUrl: "https://cloud.leonardo.ai/api-access",
-};
-
-const KLING_PROVIDER: AIProvider = {
-  id: "kling",
-  name: "Kling AI",
-  icon: "🖼️",
-  endpoint: "",
-  keyName: "kling_api_key",
-  getApiKeyUrl: "https://klingai.com/",
-};
-
-const MIDJOURNEY_PROVIDER: AIProvider = {
-  id: "midjourney",
-  name: "Midjourney",
-  icon: "🖌️",
-  endpoint: "",
-  keyName: "midjourney_api_key",
-  getApiKeyUrl: "https://www.midjourney.com/",
-};
-
-function extractTopics(script: string): string[] {
-  if (!script) return [];
-  const topics: string[] = [];
-  const seen = new Set<string>();
-  const lines = script.split(/\r?\n/);
-
-  for (const raw of lines) {
-    const line = raw.trim();
-    if (!line) continue;
-
-    // Markdown headings
-    if (/^#{1,6}\s+/.test(line)) {
-      const t = line.replace(/^#{1,6}\s+/, "").trim();
-      if (t.length > 3 && !seen.has(t)) { topics.push(t); seen.add(t); }
-      continue;
-    }
-
-    // Numbered sections: 1. Título ou 1) Título
-    if (/^\d+[\.|\)]\s+/.test(line)) {
-      const t = line.replace(/^\d+[\.|\)]\s+/, "").trim();
-      if (t.length > 3 && !seen.has(t)) { topics.push(t); seen.add(t); }
-      continue;
-    }
-
-    // Explicit section keywords
-    if (/^(t[óo]pico|se[cç][aã]o|cap[íi]tulo|parte)[:\-]\s+/i.test(line)) {
-      const t = line.replace(/^(t[óo]pico|se[cç][aã]o|cap[íi]tulo|parte)[:\-]\s+/i, "").trim();
-      if (t.length > 3 && !seen.has(t)) { topics.push(t); seen.add(t); }
-      continue;
-    }
-  }
-
-  // Fallback: use paragraphs if nothing matched
-  if (topics.length === 0) {
-    const paragraphs = script.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
-    paragraphs.slice(0, 6).forEach((p, i) => {
-      const t = p.split(/\.|\!|\?/)[0].slice(0, 90).trim();
-      if (t.length > 3 && !seen.has(t)) { topics.push(t); seen.add(t); }
-    });
-  }
+const IMAGE_PROVIDERS = [LEONARDO_PROVIDER, KLING_PROVIDER, MIDJOURNEY_PROVIDER];
 
-  return topics.slice(0, 20); // limitar para UX
+// Prompt inicial a partir das indicações visuais da seção, quando houver
+function promptFor(section: ScriptSection): string {
+  return section.visualCues.length ? `${section.title}: ${section.visualCues.join(", ")}` : section.title;
 }
 
-export function ImageGenerationSection({ script }: ImageGenerationSectionProps) {
+export function ImageGenerationSection({ script, items, onItemsChange: setItems }: ImageGenerationSectionProps) {
   const { toast } = useToast();
   const [provider, setProvider] = useState<"leonardo" | "kling" | "midjourney">("leonardo");
-  const [items, setItems] = useState<TopicItem[]>([]);
+  const [status, setStatus] = useState<Record<string, ItemStatus>>({});
+  // Vídeos levam minutos e rodam em paralelo às imagens, então têm estado próprio
+  const [videoStatus, setVideoStatus] = useState<Record<string, ItemStatus>>({});
   const [showLeonardoModal, setShowLeonardoModal] = useState(false);
   const [showKlingModal, setShowKlingModal] = useState(false);
   const [showMidjourneyModal, setShowMidjourneyModal] = useState(false);
-  const [leonardoKey, setLeonardoKey] = useState<string>(localStorage.getItem(LEONARDO_PROVIDER.keyName) || "");
-  const [klingKey, setKlingKey] = useState<string>(localStorage.getItem(KLING_PROVIDER.keyName) || "");
-  const [midjourneyKey, setMidjourneyKey] = useState<string>(localStorage.getItem(MIDJOURNEY_PROVIDER.keyName) || "");
 
-  const topics = useMemo(() => extractTopics(script), [script]);
+  // Cancelado ao sair da seção, junto com todas as gerações ligadas a ele (o polling de vídeo dura minutos)
+  const page = useRef<AbortController>();
 
   useEffect(() => {
-    // inicializa items quando o script muda
-    const initialized = topics.map((t, idx) => ({
-      id: `topic-${idx}`,
-      title: t,
-      prompt: `${t}`,
-    }));
-    setItems(initialized);
-  }, [topics]);
+    const controller = new AbortController();
+    page.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const left = () => page.current?.signal.aborted ?? false;
+
+  // Cada geração tem o próprio controller, abortado também quando a seção sai da tela
+  const startGeneration = (): AbortSignal => {
+    const controller = new AbortController();
+    page.current?.signal.addEventListener("abort", () => controller.abort(), { once: true });
+    return controller.signal;
+  };
+
+  const topics = useMemo(() => (script?.sections ?? []).slice(0, 20), [script]); // limitar para UX
+
+  useEffect(() => {
+    // inicializa items quando o script muda, mantendo prompt e imagem dos tópicos que continuam iguais
+    setItems((prev) => {
+      const next = topics.map((section, idx) => {
+        const id = `topic-${idx}`;
+        const saved = prev.find((it) => it.id === id && it.title === section.title);
+        return saved ?? { id, title: section.title, prompt: promptFor(section) };
+      });
+      return next.length === prev.length && next.every((it, i) => it === prev[i]) ? prev : next;
+    });
+  }, [topics, setItems]);
 
   const handlePromptChange = (id: string, prompt: string) => {
     setItems((prev) => prev.map((it) => (it.id === id ? { ...it, prompt } : it)));
   };
 
-  const ensureKey = (prov: "leonardo" | "kling" | "midjourney"): string | null => {
+  // A chave em si é lida na geração (e fica no servidor no modo proxy); aqui só confere se existe
+  const ensureKey = (prov: "leonardo" | "kling" | "midjourney"): boolean => {
     const map = {
-      leonardo: LEONARDO_PROVIDER.keyName,
-      kling: KLING_PROVIDER.keyName,
-      midjourney: MIDJOURNEY_PROVIDER.keyName,
+      leonardo: LEONARDO_PROVIDER,
+      kling: KLING_PROVIDER,
+      midjourney: MIDJOURNEY_PROVIDER,
     } as const;
-    const keyName = map[prov];
-    const key = localStorage.getItem(keyName);
-    if (!key) {
+    if (!hasApiKey(map[prov])) {
       if (prov === "leonardo") setShowLeonardoModal(true);
       if (prov === "kling") setShowKlingModal(true);
       if (prov === "midjourney") setShowMidjourneyModal(true);
       toast({ title: "API key necessária", description: `Configure a API do ${prov === "leonardo" ? "Leonardo" : prov === "kling" ? "Kling" : "Midjourney"}.` });
-      return null;
-    }
-    return key;
-  };
-
-  const handleSaveKey = (prov: "leonardo" | "kling" | "midjourney") => {
-    if (prov === "leonardo") {
-      localStorage.setItem(LEONARDO_PROVIDER.keyName, leonardoKey.trim());
-      toast({ title: "API salva", description: "Leonardo AI" });
-    } else if (prov === "kling") {
-      localStorage.setItem(KLING_PROVIDER.keyName, klingKey.trim());
-      toast({ title: "API salva", description: "Kling AI" });
-    } else {
-      localStorage.setItem(MIDJOURNEY_PROVIDER.keyName, midjourneyKey.trim());
-      toast({ title: "API salva", description: "Midjourney" });
+      return false;
     }
+    return true;
   };
 
   const generateOne = async (id: string) => {
     const item = items.find((x) => x.id === id);
     if (!item) return;
 
-    if (provider !== "leonardo") {
-      toast({ title: provider === "kling" ? "Kling AI" : "Midjourney", description: "Integração em breve. Forneça endpoint/documentação para habilitar.", variant: "destructive" });
+    if (provider === "midjourney") {
+      toast({ title: "Midjourney", description: "Integração em breve. Forneça endpoint/documentação para habilitar.", variant: "destructive" });
       return;
     }
 
-    const key = ensureKey("leonardo");
-    if (!key) return;
+    if (!ensureKey(provider)) return;
 
-    setItems((prev) => prev.map((x) => (x.id === id ? { ...x, loading: true, error: undefined } : x)));
+    const signal = startGeneration();
+    setStatus((prev) => ({ ...prev, [id]: { loading: true } }));
     try {
-      const url = await generateLeonardoImage(key, { prompt: item.prompt });
-      setItems((prev) => prev.map((x) => (x.id === id ? { ...x, imageUrl: url, loading: false } : x)));
+      const url =
+        provider === "kling"
+          ? await withApiKey(KLING_PROVIDER, (apiKey) => generateKlingImage(apiKey, { prompt: item.prompt, signal }))
+          : await withApiKey(LEONARDO_PROVIDER, (apiKey) => generateLeonardoImage(apiKey, { prompt: item.prompt, signal }));
+      // O clipe animado da imagem anterior deixa de corresponder
+      setItems((prev) => prev.map((x) => (x.id === id ? { ...x, imageUrl: url, videoUrl: undefined } : x)));
+      setStatus((prev) => ({ ...prev, [id]: {} }));
       toast({ title: "Imagem gerada", description: item.title });
     } catch (e: any) {
-      setItems((prev) => prev.map((x) => (x.id === id ? { ...x, loading: false, error: e?.message || "Erro" } : x)));
+      if (signal.aborted) return;
+      setStatus((prev) => ({ ...prev, [id]: { error: e?.message || "Erro" } }));
       toast({ title: "Falha ao gerar imagem", description: e?.message || "Erro", variant: "destructive" });
     }
   };
 
   const generateAll = async () => {
-    if (provider !== "leonardo") {
-      toast({ title: provider === "kling" ? "Kling AI" : "Midjourney", description: "Integração em breve.", variant: "destructive" });
+    if (provider === "midjourney") {
+      toast({ title: "Midjourney", description: "Integração em breve.", variant: "destructive" });
       return;
     }
-    const key = ensureKey("leonardo");
-    if (!key) return;
+    if (!ensureKey(provider)) return;
 
     for (const it of items) {
+      if (left()) return;
       if (it.imageUrl) continue;
       await generateOne(it.id);
     }
   };
 
-  // Render mesmo sem script para exibir campos de API
+  // Anima a imagem do tópico com a Kling, seja qual for o provider que gerou a imagem
+  const generateVideo = async (id: string) => {
+    const item = items.find((x) => x.id === id);
+    if (!item?.imageUrl || !ensureKey("kling")) return;
+
+    const signal = startGeneration();
+    setVideoStatus((prev) => ({ ...prev, [id]: { loading: true } }));
+    try {
+      const videoUrl = await withApiKey(KLING_PROVIDER, (apiKey) =>
+        generateKlingVideo(apiKey, { image: item.imageUrl, prompt: item.prompt, signal })
+      );
+      setItems((prev) => prev.map((x) => (x.id === id && x.imageUrl === item.imageUrl ? { ...x, videoUrl } : x)));
+      setVideoStatus((prev) => ({ ...prev, [id]: {} }));
+      toast({ title: "Vídeo gerado", description: item.title });
+    } catch (e) {
+      if (signal.aborted) return;
+      const message = e instanceof Error ? e.message : "Erro";
+      setVideoStatus((prev) => ({ ...prev, [id]: { error: message } }));
+      toast({ title: "Falha ao gerar vídeo", description: message, variant: "destructive" });
+    }
+  };
+
+  const generateAllVideos = async () => {
+    if (!ensureKey("kling")) return;
+    for (const it of items) {
+      if (left()) return;
+      if (!it.imageUrl || it.videoUrl) continue;
+      await generateVideo(it.id);
+    }
+  };
+
+  // Render mesmo sem script para exibir o status das chaves
 
   return (
     <section className="mt-6">
@@ -207,7 +189,7 @@ export function ImageGenerationSection({ script }: ImageGenerationSectionProps)
                 </SelectTrigger>
                 <SelectContent className="bg-card border-border">
                   <SelectItem value="leonardo">Leonardo AI</SelectItem>
-                  <SelectItem value="kling">Kling AI (em breve)</SelectItem>
+                  <SelectItem value="kling">Kling AI</SelectItem>
                   <SelectItem value="midjourney">Midjourney (em breve)</SelectItem>
                 </SelectContent>
               </Select>
@@ -223,36 +205,26 @@ export function ImageGenerationSection({ script }: ImageGenerationSectionProps)
               <Button variant="secondary" size="sm" onClick={generateAll}>
                 Gerar todas
               </Button>
+
+              <Button
+                variant="secondary"
+                size="sm"
+                title="Gera um clipe curto com a Kling para cada imagem pronta"
+                disabled={!items.some((it) => it.imageUrl && !it.videoUrl)}
+                onClick={generateAllVideos}
+              >
+                Animar todas
+              </Button>
             </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-5">
-          <div className="bg-muted/30 border rounded-lg p-4 space-y-3">
-            <h3 className="text-sm font-medium">Chaves de API</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              <div>
-                <Label htmlFor="api-leonardo">Leonardo AI</Label>
-                <div className="flex gap-2">
-                  <Input id="api-leonardo" type="password" value={leonardoKey} onChange={(e) => setLeonardoKey(e.target.value)} placeholder="Cole a API key" />
-                  <Button variant="outline" size="sm" onClick={() => handleSaveKey("leonardo")}>Salvar</Button>
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="api-kling">Kling AI</Label>
-                <div className="flex gap-2">
-                  <Input id="api-kling" type="password" value={klingKey} onChange={(e) => setKlingKey(e.target.value)} placeholder="Cole a API key" />
-                  <Button variant="outline" size="sm" onClick={() => handleSaveKey("kling")}>Salvar</Button>
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="api-midjourney">Midjourney</Label>
-                <div className="flex gap-2">
-                  <Input id="api-midjourney" type="password" value={midjourneyKey} onChange={(e) => setMidjourneyKey(e.target.value)} placeholder="Cole a API key" />
-                  <Button variant="outline" size="sm" onClick={() => handleSaveKey("midjourney")}>Salvar</Button>
-                </div>
-              </div>
-            </div>
-          </div>
+          <p className="text-xs text-muted-foreground">
+            {IMAGE_PROVIDERS.map((p) => `${p.name}: ${hasApiKey(p) ? "chave configurada" : "sem chave"}`).join(" · ")} ·{" "}
+            <Link to="/settings/keys" className="text-primary underline">
+              Gerenciar chaves
+            </Link>
+          </p>
 
           {items.length === 0 ? (
             <p className="text-sm text-muted-foreground">Nenhum tópico identificado no roteiro.</p>
@@ -264,13 +236,13 @@ export function ImageGenerationSection({ script }: ImageGenerationSectionProps)
                     <Label htmlFor={`prompt-${it.id}`}>Tópico {idx + 1}: {it.title}</Label>
                     <Input id={`prompt-${it.id}`} value={it.prompt} onChange={(e) => handlePromptChange(it.id, e.target.value)} />
                   </div>
-                  <Button onClick={() => generateOne(it.id)} disabled={!!it.loading}>
-                    {it.loading ? (<><Loader2 className="w-4 h-4 mr-2 animate-spin" />Gerando...</>) : "Gerar"}
+                  <Button onClick={() => generateOne(it.id)} disabled={!!status[it.id]?.loading}>
+                    {status[it.id]?.loading ? (<><Loader2 className="w-4 h-4 mr-2 animate-spin" />Gerando...</>) : "Gerar"}
                   </Button>
                 </div>
 
-                {it.error && (
-                  <p className="text-xs text-destructive mt-2">{it.error}</p>
+                {status[it.id]?.error && (
+                  <p className="text-xs text-destructive mt-2">{status[it.id].error}</p>
                 )}
 
                 {it.imageUrl && (
@@ -281,10 +253,32 @@ export function ImageGenerationSection({ script }: ImageGenerationSectionProps)
                       loading="lazy"
                       className="w-full max-w-md rounded-md border"
                     />
-                    <div className="mt-2">
+                    <div className="mt-2 flex gap-2">
                       <a href={it.imageUrl} download target="_blank" rel="noreferrer">
                         <Button variant="outline" size="sm">Baixar</Button>
                       </a>
+                      <Button variant="outline" size="sm" onClick={() => generateVideo(it.id)} disabled={!!videoStatus[it.id]?.loading}>
+                        {videoStatus[it.id]?.loading ? (
+                          <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Animando...</>
+                        ) : (
+                          <><Clapperboard className="w-4 h-4 mr-2" />{it.videoUrl ? "Animar de novo" : "Animar"}</>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {videoStatus[it.id]?.error && (
+                  <p className="text-xs text-destructive mt-2">{videoStatus[it.id].error}</p>
+                )}
+
+                {it.videoUrl && (
+                  <div className="mt-4">
+                    <video src={it.videoUrl} controls loop className="w-full max-w-md rounded-md border" />
+                    <div className="mt-2">
+                      <a href={it.videoUrl} download target="_blank" rel="noreferrer">
+                        <Button variant="outline" size="sm">Baixar vídeo</Button>
+                      </a>
                     </div>
                   </div>
                 )}
@@ -0,0 +1,218 @@
+import { httpRequest } from "@/lib/http-client";
+import { KLING_IMAGE_USD, klingVideoCost } from "@/lib/usage-cost";
+import { recordUsage } from "@/lib/usage-ledger";
+import { apiKeySlotOf } from "@/lib/api-keys";
+import { AuthError, ProviderError, RateLimitError, providerErrorFromResponse } from "@/lib/provider-errors";
+import { KLING_PROVIDER } from "@/lib/service-providers";
+import { klingToken } from "@/lib/kling-auth";
+import { buildProxyRequest, isProxied } from "@/lib/proxy-mode";
+
+export type KlingVideoMode = "std" | "pro";
+
+export interface GenerateKlingImageOptions {
+  prompt: string;
+  aspectRatio?: string;
+  modelName?: string;
+  signal?: AbortSignal;
+}
+
+export interface GenerateKlingVideoOptions {
+  // URL pública da imagem ou data URL; a API aceita os dois (o segundo sem o prefixo)
+  image: string;
+  prompt?: string;
+  duration?: 5 | 10;
+  mode?: KlingVideoMode;
+  modelName?: string;
+  signal?: AbortSignal;
+}
+
+interface KlingTask {
+  task_id: string;
+  task_status: "submitted" | "processing" | "succeed" | "failed";
+  task_status_msg?: string;
+  task_result?: {
+    images?: { url: string }[];
+    videos?: { url: string; duration?: string }[];
+  };
+}
+
+interface KlingResponse {
+  code: number;
+  message?: string;
+  data?: KlingTask;
+}
+
+const NAME = KLING_PROVIDER.name;
+const REQUEST_TIMEOUT_MS = 30000;
+// Imagens ficam prontas em segundos; vídeos costumam levar alguns minutos
+const IMAGE_POLL = { intervalMs: 3000, timeoutMs: 180000 };
+const VIDEO_POLL = { intervalMs: 10000, timeoutMs: 900000 };
+// Conta sem saldo ou pacote de recursos esgotado
+const QUOTA_CODES = [1101, 1102];
+
+// A Kling responde { code, message }; os códigos de saldo viram cota esgotada para a rotação de chaves agir
+function klingError(status: number, body: string, headers?: Headers): ProviderError {
+  let parsed: KlingResponse | null = null;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // corpo que não é JSON segue para a classificação genérica
+  }
+  if (parsed && QUOTA_CODES.includes(parsed.code)) {
+    return new RateLimitError(`${NAME}: saldo ou pacote de recursos esgotado`, NAME, status, parsed.message, undefined, true);
+  }
+  return providerErrorFromResponse(NAME, status, body, headers);
+}
+
+export interface KlingRequest {
+  path: string;
+  // Com corpo cria a tarefa (POST); sem corpo consulta (GET)
+  body?: unknown;
+}
+
+// Chamada direta à API; o proxy usa a mesma função com a chave do servidor e repassa a resposta
+export async function requestKling(apiKey: string, { path, body }: KlingRequest, signal?: AbortSignal): Promise<Response> {
+  const create = body !== undefined;
+  return httpRequest(`${KLING_PROVIDER.endpoint}${path}`, {
+    method: create ? "POST" : "GET",
+    headers: {
+      Authorization: `Bearer ${await klingToken(apiKey)}`,
+      "Content-Type": "application/json",
+    },
+    body: create ? JSON.stringify(body) : undefined,
+    signal,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+    // Criar a tarefa é cobrado: repetir após um timeout ou 5xx pode gerar outra; a consulta pode repetir
+    ...(create && { retries: 0 }),
+  });
+}
+
+async function call(apiKey: string, request: KlingRequest, signal?: AbortSignal): Promise<KlingTask> {
+  let res: Response;
+  if (isProxied(KLING_PROVIDER)) {
+    // No modo proxy a secret key e a assinatura do JWT ficam no servidor
+    const proxy = buildProxyRequest("/api/generate/kling", request);
+    res = await httpRequest(proxy.url, {
+      method: "POST",
+      headers: proxy.headers,
+      body: JSON.stringify(proxy.body),
+      signal,
+      // O proxy já repete as consultas; a criação nunca é repetida
+      timeoutMs: REQUEST_TIMEOUT_MS * 3,
+      retries: 0,
+    });
+  } else {
+    res = await requestKling(apiKey, request, signal);
+  }
+  const text = await res.text();
+  // Alguns erros chegam com status 200 e code diferente de 0
+  let data: KlingResponse | null = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // tratado abaixo
+  }
+  if (!res.ok || !data || data.code !== 0) throw klingError(res.ok ? 400 : res.status, text, res.headers);
+  if (!data.data?.task_id) throw new ProviderError(`${NAME}: resposta sem task_id`, NAME, res.status);
+  return data.data;
+}
+
+// Cancela no meio da espera: o intervalo do vídeo é longo demais para esperar acabar
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Consulta a tarefa até concluir; instabilidades passageiras não interrompem o polling
+async function pollTask(
+  apiKey: string,
+  path: string,
+  taskId: string,
+  { intervalMs, timeoutMs }: typeof IMAGE_POLL,
+  signal?: AbortSignal
+): Promise<KlingTask> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    await wait(intervalMs, signal);
+    let task: KlingTask;
+    try {
+      task = await call(apiKey, { path: `${path}/${taskId}` }, signal);
+    } catch (error) {
+      if (error instanceof ProviderError && error.retryable && !(error instanceof AuthError)) continue;
+      throw error;
+    }
+    if (task.task_status === "succeed") return task;
+    if (task.task_status === "failed") {
+      throw new ProviderError(`${NAME}: geração falhou${task.task_status_msg ? ` (${task.task_status_msg})` : ""}`, NAME);
+    }
+  }
+  throw new Error(`Tempo esgotado aguardando a ${NAME}`);
+}
+
+export async function generateKlingImage(apiKey: string, options: GenerateKlingImageOptions): Promise<string> {
+  const { prompt, aspectRatio = "16:9", modelName = "kling-v1", signal } = options;
+  const created = await call(
+    apiKey,
+    { path: "/v1/images/generations", body: { model_name: modelName, prompt, n: 1, aspect_ratio: aspectRatio } },
+    signal
+  );
+
+  // A Kling cobra na criação e não informa o custo na resposta
+  recordUsage({
+    service: "image",
+    provider: NAME,
+    model: modelName,
+    keySlot: apiKeySlotOf(apiKey),
+    estimated: true,
+    costUsd: KLING_IMAGE_USD,
+  });
+
+  const task = await pollTask(apiKey, "/v1/images/generations", created.task_id, IMAGE_POLL, signal);
+  const url = task.task_result?.images?.[0]?.url;
+  if (!url) throw new ProviderError(`${NAME}: tarefa concluída sem imagem`, NAME);
+  return url;
+}
+
+// Anima uma imagem já gerada em um clipe curto
+export async function generateKlingVideo(apiKey: string, options: GenerateKlingVideoOptions): Promise<string> {
+  const { image, prompt, duration = 5, mode = "std", modelName = "kling-v1", signal } = options;
+  const created = await call(
+    apiKey,
+    {
+      path: "/v1/videos/image2video",
+      body: {
+        model_name: modelName,
+        image: image.replace(/^data:[^,]*;base64,/, ""),
+        ...(prompt && { prompt }),
+        duration: String(duration),
+        mode,
+      },
+    },
+    signal
+  );
+
+  recordUsage({
+    service: "video",
+    provider: NAME,
+    model: `${modelName} (${mode})`,
+    keySlot: apiKeySlotOf(apiKey),
+    seconds: duration,
+    estimated: true,
+    costUsd: klingVideoCost(duration, mode),
+  });
+
+  const task = await pollTask(apiKey, "/v1/videos/image2video", created.task_id, VIDEO_POLL, signal);
+  const url = task.task_result?.videos?.[0]?.url;
+  if (!url) throw new ProviderError(`${NAME}: tarefa concluída sem vídeo`, NAME);
+  return url;
+}
@@ -1,21 +1,44 @@
+import { httpRequest } from "@/lib/http-client";
+import { creditCost } from "@/lib/usage-cost";
+import { recordUsage } from "@/lib/usage-ledger";
+import { apiKeySlotOf } from "@/lib/api-keys";
+import { providerErrorFromResponse } from "@/lib/provider-errors";
+import { buildProxyRequest, isProxied } from "@/lib/proxy-mode";
+import { LEONARDO_PROVIDER } from "@/lib/service-providers";
+
 export interface GenerateImageOptions {
   prompt: string;
   width?: number;
   height?: number;
   modelId?: string; // Leonardo default model
+  signal?: AbortSignal;
 }
 
 const LEONARDO_API = "https://cloud.leonardo.ai/api/rest/v1";
+const DEFAULT_MODEL_ID = "e316348f-7773-490e-9ce1-2fa6f8ad5f2b";
 
 // Poll helper
 async function wait(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export async function generateLeonardoImage(apiKey: string, options: GenerateImageOptions): Promise<string> {
-  const { prompt, width = 1024, height = 1024, modelId = "e316348f-7773-490e-9ce1-2fa6f8ad5f2b" } = options;
+const isTransient = (status: number) => status === 429 || status >= 500;
+
+// Resposta do proxy em /api/generate/image
+interface ProxyImageResponse {
+  url: string;
+  credits?: number;
+}
 
-  const createRes = await fetch(`${LEONARDO_API}/generations`, {
+// Cria a geração e espera a imagem ficar pronta; usada pelo navegador e pelo proxy, cada um com sua chave
+export async function requestLeonardoImage(
+  apiKey: string,
+  options: GenerateImageOptions,
+  onCreated: (credits: number | undefined) => void
+): Promise<string> {
+  const { prompt, width = 1024, height = 1024, modelId = DEFAULT_MODEL_ID, signal } = options;
+
+  const createRes = await httpRequest(`${LEONARDO_API}/generations`, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -29,11 +52,12 @@ export async function generateLeonardoImage(apiKey: string, options: GenerateIma
       height,
       public: false,
     }),
+    signal,
+    timeoutMs: 30000,
   });
 
   if (!createRes.ok) {
-    const text = await createRes.text();
-    throw new Error(`Falha ao criar geração (${createRes.status}): ${text}`);
+    throw providerErrorFromResponse("Leonardo AI", createRes.status, await createRes.text(), createRes.headers);
   }
 
   const created = await createRes.json();
@@ -42,14 +66,26 @@ export async function generateLeonardoImage(apiKey: string, options: GenerateIma
     throw new Error("Resposta inesperada da API Leonardo (sem generationId)");
   }
 
+  // Os créditos são debitados na criação, mesmo que a geração falhe depois
+  onCreated(created?.sdGenerationJob?.apiCreditCost);
+
   // Poll até completar (máx ~60s)
   const start = Date.now();
   while (Date.now() - start < 60000) {
     await wait(2000);
-    const pollRes = await fetch(`${LEONARDO_API}/generations/${generationId}`, {
+    signal?.throwIfAborted();
+    const pollRes = await httpRequest(`${LEONARDO_API}/generations/${generationId}`, {
       headers: { Authorization: `Bearer ${apiKey}` },
+      signal,
+      timeoutMs: 15000,
+      retries: 1,
     });
-    if (!pollRes.ok) continue;
+    if (!pollRes.ok) {
+      // Instabilidades passageiras não interrompem o polling; erros de cliente sim
+      if (isTransient(pollRes.status)) continue;
+      const text = await pollRes.text();
+      throw new Error(`Falha ao consultar geração (${pollRes.status}): ${text}`);
+    }
     const data = await pollRes.json();
 
     // Tentar diferentes formatos de resposta conhecidos
@@ -69,3 +105,33 @@ export async function generateLeonardoImage(apiKey: string, options: GenerateIma
 
   throw new Error("Tempo esgotado aguardando a imagem da Leonardo AI");
 }
+
+export async function generateLeonardoImage(apiKey: string, options: GenerateImageOptions): Promise<string> {
+  const record = (credits: number | undefined) =>
+    recordUsage({
+      service: "image",
+      provider: "Leonardo AI",
+      model: options.modelId ?? DEFAULT_MODEL_ID,
+      keySlot: apiKeySlotOf(apiKey),
+      credits,
+      estimated: typeof credits !== "number",
+      costUsd: creditCost(credits ?? 0),
+    });
+  if (!isProxied(LEONARDO_PROVIDER)) return requestLeonardoImage(apiKey, options, record);
+
+  // O proxy faz a criação e o polling; se a geração falhar por lá, os créditos gastos não chegam a ser registrados
+  const { signal, ...body } = options;
+  const request = buildProxyRequest("/api/generate/image", body);
+  const res = await httpRequest(request.url, {
+    method: "POST",
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal,
+    timeoutMs: 120000,
+    retries: 0,
+  });
+  if (!res.ok) throw providerErrorFromResponse(LEONARDO_PROVIDER.name, res.status, await res.text(), res.headers);
+  const data = (await res.json()) as ProxyImageResponse;
+  record(data.credits);
+  return data.url;
+}
@@ -0,0 +1,20 @@
+import { useProject } from "@/hooks/use-project";
+import { AudioGenerationSection } from "@/components/audio/AudioGenerationSection";
+
+export const AudioStage = () => {
+  const { script, scriptData, translations, audioLanguage, setAudioLanguage, audio, setAudio } = useProject();
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <AudioGenerationSection
+        script={script}
+        language={scriptData.language}
+        translations={translations}
+        selectedLanguage={audioLanguage}
+        onSelectLanguage={setAudioLanguage}
+        audio={audio}
+        onAudioChange={setAudio}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+import { useProject } from "@/hooks/use-project";
+import { CombinedSection } from "@/components/combined/CombinedSection";
+
+export const ExportStage = () => {
+  const { script, scriptData } = useProject();
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <CombinedSection script={script} language={scriptData.language} />
+    </div>
+  );
+};
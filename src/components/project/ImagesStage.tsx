@@ -0,0 +1,12 @@
+import { useProject } from "@/hooks/use-project";
+import { ImageGenerationSection } from "@/components/images/ImageGenerationSection";
+
+export const ImagesStage = () => {
+  const { script, images, setImages } = useProject();
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <ImageGenerationSection script={script} items={images} onItemsChange={setImages} />
+    </div>
+  );
+};
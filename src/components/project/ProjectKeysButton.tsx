@@ -0,0 +1,72 @@
+import { Link } from "react-router-dom";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { KeySquare } from "lucide-react";
+import { useProviders } from "@/hooks/use-providers";
+import { PRIMARY_KEY_ID, hasStoredApiKey, listApiKeys } from "@/lib/api-keys";
+import { SERVICE_PROVIDERS } from "@/lib/service-providers";
+
+interface ProjectKeysButtonProps {
+  value: Record<string, string>;
+  onChange: (keys: Record<string, string>) => void;
+}
+
+// Escolha, por projeto, de qual chave usar nos providers com mais de uma chave salva
+export const ProjectKeysButton = ({ value, onChange }: ProjectKeysButtonProps) => {
+  const providers = [...useProviders(), ...SERVICE_PROVIDERS]
+    .map((provider) => ({ provider, keys: listApiKeys(provider).filter((k) => hasStoredApiKey(provider, k.id)) }))
+    .filter(({ keys }) => keys.length > 1);
+
+  const choose = (providerId: string, keyId: string) => {
+    const { [providerId]: _previous, ...rest } = value;
+    onChange(keyId === PRIMARY_KEY_ID ? rest : { ...rest, [providerId]: keyId });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Chaves usadas neste projeto">
+          <KeySquare className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <p className="text-sm font-medium">Chaves deste projeto</p>
+        {providers.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Salve mais de uma chave para o mesmo provider em{" "}
+            <Link to="/settings/keys" className="underline">
+              Chaves de API
+            </Link>{" "}
+            para escolher qual usar aqui.
+          </p>
+        ) : (
+          providers.map(({ provider, keys }) => (
+            <div key={provider.id} className="space-y-1">
+              <Label>
+                {provider.icon} {provider.name}
+              </Label>
+              {/* Chave escolhida apagada depois: vale a primeira salva, como em readApiKey */}
+              <Select
+                value={keys.some((k) => k.id === value[provider.id]) ? value[provider.id] : keys[0].id}
+                onValueChange={(keyId) => choose(provider.id, keyId)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {keys.map((key) => (
+                    <SelectItem key={key.id} value={key.id}>
+                      {key.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
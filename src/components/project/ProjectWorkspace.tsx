@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, NavLink, Outlet } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, FileText, KeyRound, Image as ImageIcon, Package, Volume2 } from "lucide-react";
+import { ScriptData } from "@/types/ai-providers";
+import { Script, ScriptTranslation } from "@/types/script";
+import { ImageItem, Project, ProjectAudio } from "@/types/project";
+import { ProjectContext, SaveState } from "@/hooks/use-project";
+import { useScriptVersions } from "@/hooks/use-script-versions";
+import { ScriptVersion } from "@/lib/script-versions";
+import { saveProject } from "@/lib/project-store";
+import { setUsageProject } from "@/lib/usage-ledger";
+import { setProjectKeys } from "@/lib/api-keys";
+import { cn } from "@/lib/utils";
+import { KeyVaultButton } from "@/components/vault/KeyVaultButton";
+import { ProjectKeysButton } from "@/components/project/ProjectKeysButton";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const SAVE_STATE_LABEL: Record<SaveState, string> = {
+  saved: "Salvo",
+  pending: "Salvando...",
+  error: "Falha ao salvar",
+};
+
+const STAGES = [
+  { path: "script", label: "Roteiro", icon: FileText },
+  { path: "images", label: "Imagens", icon: ImageIcon },
+  { path: "audio", label: "Áudio", icon: Volume2 },
+  { path: "export", label: "Exportar", icon: Package },
+];
+
+interface ProjectWorkspaceProps {
+  // As versões do projeto já devem estar carregadas com setVersions antes da montagem
+  project: Project;
+}
+
+export const ProjectWorkspace = ({ project }: ProjectWorkspaceProps) => {
+  const [name, setName] = useState(project.name);
+  const [scriptData, setScriptData] = useState<ScriptData>(project.scriptData);
+  const [script, setScript] = useState<Script | null>(project.script);
+  const [headVersion, setHeadVersion] = useState<ScriptVersion | null>(
+    () => project.versions.find((v) => v.id === project.headVersionId) ?? null
+  );
+  const [translations, setTranslations] = useState<ScriptTranslation[]>(project.translations);
+  const [images, setImages] = useState<ImageItem[]>(project.images);
+  const [audio, setAudio] = useState<ProjectAudio | null>(project.audio);
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>(project.apiKeys ?? {});
+  const [audioLanguage, setAudioLanguage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>("saved");
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const openedRef = useRef(false);
+  const versions = useScriptVersions();
+
+  useEffect(() => {
+    setUsageProject(project.id);
+  }, [project.id]);
+
+  useEffect(() => {
+    setProjectKeys(apiKeys);
+  }, [apiKeys]);
+
+  // Fora do projeto volta a valer a chave principal de cada provider
+  useEffect(() => () => setProjectKeys({}), []);
+
+  // Autosave: grava o projeto um instante depois da última alteração; gerações em andamento esperam terminar
+  useEffect(() => {
+    if (!openedRef.current) {
+      openedRef.current = true;
+      return;
+    }
+    if (busy) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      saveProject({
+        ...project,
+        name: name.trim() || project.name,
+        updatedAt: Date.now(),
+        scriptData,
+        script,
+        versions,
+        headVersionId: headVersion?.id,
+        translations,
+        images,
+        audio,
+        apiKeys,
+      }).then(
+        () => setSaveState("saved"),
+        (error) => {
+          console.error("Erro ao salvar projeto:", error);
+          setSaveState("error");
+        }
+      );
+    };
+    pendingSaveRef.current = save;
+    setSaveState("pending");
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [project, name, scriptData, script, versions, headVersion, translations, images, audio, apiKeys, busy]);
+
+  // Sair do projeto não pode descartar a última alteração ainda não gravada
+  useEffect(() => () => pendingSaveRef.current?.(), []);
+
+  return (
+    <ProjectContext.Provider
+      value={{
+        project,
+        name,
+        setName,
+        scriptData,
+        setScriptData,
+        script,
+        setScript,
+        headVersion,
+        setHeadVersion,
+        translations,
+        setTranslations,
+        images,
+        setImages,
+        audio,
+        setAudio,
+        audioLanguage,
+        setAudioLanguage,
+        setBusy,
+        saveState,
+      }}
+    >
+      <div className="min-h-screen bg-gradient-dark">
+        <div className="sticky top-0 z-20 bg-card/95 backdrop-blur border-b">
+          <div className="max-w-6xl mx-auto px-6 py-3 flex flex-wrap items-center gap-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/projects">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Projetos
+              </Link>
+            </Button>
+            <Input
+              aria-label="Nome do projeto"
+              className="max-w-xs"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <span className={cn("text-xs", saveState === "error" ? "text-destructive" : "text-muted-foreground")}>
+              {SAVE_STATE_LABEL[saveState]}
+            </span>
+            <nav className="flex gap-1 ml-auto">
+              {STAGES.map(({ path, label, icon: Icon }) => (
+                <NavLink
+                  key={path}
+                  to={path}
+                  className={({ isActive }) =>
+                    cn(
+                      "inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm",
+                      isActive ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+                    )
+                  }
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </NavLink>
+              ))}
+            </nav>
+            <ProjectKeysButton value={apiKeys} onChange={setApiKeys} />
+            <Button variant="ghost" size="sm" title="Chaves de API" asChild>
+              <Link to="/settings/keys">
+                <KeyRound className="w-4 h-4" />
+              </Link>
+            </Button>
+            <KeyVaultButton />
+          </div>
+        </div>
+        <Outlet />
+      </div>
+    </ProjectContext.Provider>
+  );
+};
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Server } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useProviders } from "@/hooks/use-providers";
+import { PROXY_PROVIDER_IDS, checkProxy, loadProxySettings, saveProxySettings } from "@/lib/proxy-mode";
+import { SERVICE_PROVIDERS } from "@/lib/service-providers";
+
+interface ProxySettingsCardProps {
+  // Avisa a página para recalcular quais providers usam o proxy
+  onChanged: () => void;
+}
+
+export const ProxySettingsCard = ({ onChanged }: ProxySettingsCardProps) => {
+  const { toast } = useToast();
+  const providers = [...useProviders(), ...SERVICE_PROVIDERS].filter((p) => PROXY_PROVIDER_IDS.includes(p.id));
+  const [settings, setSettings] = useState(loadProxySettings);
+  const [url, setUrl] = useState(settings.url);
+  const [token, setToken] = useState(settings.token);
+  const [checking, setChecking] = useState(false);
+
+  const update = (next: typeof settings) => {
+    saveProxySettings(next);
+    setSettings(next);
+    onChanged();
+  };
+
+  // Só liga o modo proxy depois de o servidor responder, para não quebrar as gerações com um endereço errado
+  const connect = async () => {
+    setChecking(true);
+    try {
+      const keys = await checkProxy(url.trim(), token.trim());
+      update({ enabled: true, url: url.trim(), token: token.trim(), keys });
+      toast({ title: "Modo proxy ativado", description: `${keys.length} chave(s) configurada(s) no servidor.` });
+    } catch (error) {
+      toast({
+        title: "Proxy não respondeu",
+        description:
+          error instanceof TypeError
+            ? "Confira o endereço e se o servidor está rodando (npm run proxy)."
+            : error instanceof Error
+              ? error.message
+              : "Erro desconhecido",
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-dark">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="w-5 h-5" />
+          Modo proxy
+          <Badge variant={settings.enabled ? "default" : "outline"}>{settings.enabled ? "Ativo" : "Desligado"}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Com o proxy local (npm run proxy) as chamadas de roteiro, imagem, vídeo e áudio passam pelo servidor, que guarda as
+          chaves; elas não chegam ao navegador. Providers personalizados continuam com as chaves daqui.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            connect();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="proxy-url">Endereço</Label>
+            <Input id="proxy-url" value={url} onChange={(e) => setUrl(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="proxy-token">Token (opcional)</Label>
+            <Input id="proxy-token" type="password" value={token} onChange={(e) => setToken(e.target.value)} />
+          </div>
+          <Button type="submit" disabled={checking || !url.trim()}>
+            {checking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {settings.enabled ? "Verificar de novo" : "Conectar"}
+          </Button>
+        </form>
+
+        {settings.enabled && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Chaves no servidor:</span>
+            {providers.map((provider) => (
+              <Badge key={provider.id} variant={settings.keys.includes(provider.keyName) ? "secondary" : "outline"}>
+                {provider.icon} {provider.name}
+                {!settings.keys.includes(provider.keyName) && " · sem chave"}
+              </Badge>
+            ))}
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => update({ ...settings, enabled: false })}>
+              Desligar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,229 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download, Languages, Loader2, Square, Volume2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AIProvider, GenerationParams } from "@/types/ai-providers";
+import { Script, ScriptTranslation } from "@/types/script";
+import { renderScript, scriptFingerprint } from "@/lib/script-document";
+import { SCRIPT_LANGUAGES, getLanguage, textDirection } from "@/lib/languages";
+import { describeError } from "@/lib/provider-errors";
+import { hasApiKey, withApiKey } from "@/lib/api-keys";
+import { ScriptGeneratorAPI } from "@/components/ai/ScriptGeneratorAPI";
+
+interface TranslationSectionProps {
+  script: Script | null;
+  language: string;
+  topic: string;
+  provider: AIProvider;
+  params: GenerationParams;
+  translations: ScriptTranslation[];
+  onChange: (translations: ScriptTranslation[]) => void;
+  onUseInAudio: (language: string) => void;
+}
+
+function downloadFile(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export const TranslationSection = ({
+  script,
+  language,
+  topic,
+  provider,
+  params,
+  translations,
+  onChange,
+  onUseInAudio,
+}: TranslationSectionProps) => {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<string[]>([]);
+  const [translating, setTranslating] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const sourceLanguage = getLanguage(language).code;
+  const sourceId = script ? scriptFingerprint(script) : "";
+  const available = SCRIPT_LANGUAGES.filter((l) => l.code !== sourceLanguage);
+  const fileBase = `roteiro-${topic.replace(/\s+/g, "-") || "sem-titulo"}`;
+
+  const toggleTarget = (code: string, checked: boolean) => {
+    setTargets((prev) => (checked ? [...prev, code] : prev.filter((c) => c !== code)));
+  };
+
+  const translate = async () => {
+    if (!script || !targets.length) return;
+    if (!hasApiKey(provider)) {
+      toast({ title: "API key necessária", description: `Configure a API do ${provider.name} para traduzir.`, variant: "destructive" });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let current = translations;
+    let done = 0;
+    try {
+      // Uma chamada por idioma; cada tradução concluída já fica disponível mesmo se a seguinte falhar
+      for (const target of targets) {
+        setTranslating(target);
+        const translated = await withApiKey(provider, (apiKey) =>
+          ScriptGeneratorAPI.translateScript(provider, script, target, apiKey, params, controller.signal)
+        );
+        const entry: ScriptTranslation = { language: target, script: translated, sourceId, provider: provider.name };
+        current = [...current.filter((t) => t.language !== target), entry];
+        onChange(current);
+        setActiveTab(target);
+        done++;
+      }
+      toast({ title: "Tradução concluída", description: `${done} idioma(s) traduzidos com ${provider.name}.` });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: "Tradução interrompida", description: `${done} idioma(s) concluídos.` });
+        return;
+      }
+      console.error("Erro:", error);
+      toast({ ...describeError(error), variant: "destructive" });
+    } finally {
+      abortRef.current = null;
+      setTranslating(null);
+    }
+  };
+
+  const remove = (code: string) => {
+    onChange(translations.filter((t) => t.language !== code));
+  };
+
+  // Um único arquivo com o original e todas as traduções ligadas a ele
+  const exportAll = () => {
+    if (!script) return;
+    const bundle = {
+      sourceId,
+      source: { language: sourceLanguage, script },
+      translations: translations.map((t) => ({ ...t, outdated: t.sourceId !== sourceId })),
+    };
+    downloadFile(JSON.stringify(bundle, null, 2), "application/json", `${fileBase}-traducoes.json`);
+  };
+
+  return (
+    <Card className="shadow-dark">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="w-5 h-5" />
+            Traduções
+          </CardTitle>
+          {translations.length > 0 && (
+            <Button variant="outline" size="sm" onClick={exportAll} disabled={!script}>
+              <Download className="w-4 h-4 mr-2" />
+              Exportar todas
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!script ? (
+          <p className="text-sm text-muted-foreground">Gere um roteiro para traduzi-lo para outros idiomas.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {available.map((l) => (
+                <label key={l.code} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={targets.includes(l.code)}
+                    disabled={translating !== null}
+                    onCheckedChange={(checked) => toggleTarget(l.code, checked === true)}
+                  />
+                  {l.label}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button onClick={translate} disabled={translating !== null || !targets.length}>
+                {translating ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Traduzindo para {getLanguage(translating).label}...
+                  </>
+                ) : (
+                  <>
+                    <Languages className="w-4 h-4 mr-2" />
+                    Traduzir
+                  </>
+                )}
+              </Button>
+              {translating && (
+                <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Parar
+                </Button>
+              )}
+              <span className="text-xs text-muted-foreground">
+                Usa {provider.icon} {provider.name} · {params.model}
+              </span>
+            </div>
+          </>
+        )}
+
+        {translations.length > 0 && (
+          <Tabs
+            value={translations.some((t) => t.language === activeTab) ? activeTab : translations[0].language}
+            onValueChange={setActiveTab}
+          >
+            <TabsList className="flex-wrap h-auto">
+              {translations.map((t) => (
+                <TabsTrigger key={t.language} value={t.language}>
+                  {getLanguage(t.language).label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {translations.map((t) => (
+              <TabsContent key={t.language} value={t.language} className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Traduzido com {t.provider}</span>
+                  {t.sourceId !== sourceId && (
+                    <Badge variant="destructive" title="O roteiro original mudou depois desta tradução">
+                      Desatualizada
+                    </Badge>
+                  )}
+                  <div className="ml-auto flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onUseInAudio(t.language)}>
+                      <Volume2 className="w-4 h-4 mr-2" />
+                      Usar no áudio
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadFile(renderScript(t.script), "text/plain", `${fileBase}-${t.language}.txt`)}
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Baixar
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => remove(t.language)}>
+                      Remover
+                    </Button>
+                  </div>
+                </div>
+                <div className="bg-muted/50 rounded-lg p-4 max-h-96 overflow-y-auto">
+                  <pre className="whitespace-pre-wrap text-sm font-mono" lang={t.language} dir={textDirection(t.language)}>
+                    {renderScript(t.script)}
+                  </pre>
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
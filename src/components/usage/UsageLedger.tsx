@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Receipt, Trash2 } from "lucide-react";
+import { useUsageEntries } from "@/hooks/use-usage-ledger";
+import { SESSION_ID, UsageEntry, UsageService, UsageSummary, clearUsage, summarizeUsage } from "@/lib/usage-ledger";
+import { formatCount, formatUsd } from "@/lib/usage-cost";
+
+interface UsageLedgerProps {
+  project: string;
+  projectName: string;
+}
+
+const SERVICE_LABEL: Record<UsageService, string> = {
+  script: "Roteiro",
+  image: "Imagem",
+  audio: "Áudio",
+  video: "Vídeo",
+};
+
+const RECENT_LIMIT = 10;
+
+function describeConsumption(entry: UsageEntry): string {
+  const prefix = entry.estimated ? "~" : "";
+  if (entry.service === "image") return entry.credits === undefined ? "créditos não informados" : `${entry.credits} créditos`;
+  if (entry.service === "audio") return `${prefix}${formatCount(entry.characters ?? 0)} caracteres`;
+  if (entry.service === "video") return `${entry.seconds ?? 0}s de vídeo`;
+  return `${prefix}${formatCount(entry.promptTokens ?? 0)} + ${formatCount(entry.completionTokens ?? 0)} tokens`;
+}
+
+const SummaryBlock = ({ title, summary }: { title: string; summary: UsageSummary }) => (
+  <div className="border rounded-lg p-3 bg-muted/30 space-y-1">
+    <p className="text-xs text-muted-foreground truncate">{title}</p>
+    <p className="text-xl font-semibold">{formatUsd(summary.costUsd)}</p>
+    <p className="text-xs text-muted-foreground">
+      {summary.calls} chamadas · {formatCount(summary.promptTokens)} tokens de entrada ·{" "}
+      {formatCount(summary.completionTokens)} de saída
+    </p>
+    {(summary.characters > 0 || summary.credits > 0 || summary.seconds > 0) && (
+      <p className="text-xs text-muted-foreground">
+        {formatCount(summary.characters)} caracteres de áudio · {formatCount(summary.credits)} créditos de imagem ·{" "}
+        {formatCount(summary.seconds)}s de vídeo
+      </p>
+    )}
+  </div>
+);
+
+export const UsageLedger = ({ project, projectName }: UsageLedgerProps) => {
+  const entries = useUsageEntries();
+  const sessionEntries = entries.filter((e) => e.sessionId === SESSION_ID);
+  const projectEntries = entries.filter((e) => e.project === project);
+  const recent = sessionEntries.slice(-RECENT_LIMIT).reverse();
+
+  return (
+    <Card className="shadow-dark">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            Uso e Custos
+          </CardTitle>
+          {entries.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearUsage}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Limpar histórico
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <SummaryBlock title="Nesta sessão" summary={summarizeUsage(sessionEntries)} />
+          <SummaryBlock title={`Projeto: ${projectName || "sem nome"}`} summary={summarizeUsage(projectEntries)} />
+        </div>
+
+        {recent.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hora</TableHead>
+                <TableHead>Serviço</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Consumo</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-xs">{new Date(entry.timestamp).toLocaleTimeString("pt-BR")}</TableCell>
+                  <TableCell className="text-xs">{SERVICE_LABEL[entry.service]}</TableCell>
+                  <TableCell className="text-xs">
+                    {entry.provider}
+                    {entry.model && <span className="block text-muted-foreground">{entry.model}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs">{describeConsumption(entry)}</TableCell>
+                  <TableCell className="text-xs text-right">{formatUsd(entry.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nenhuma chamada registrada nesta sessão.</p>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Valores aproximados a partir dos preços públicos de cada API. "~" indica consumo estimado quando o provider não informou os tokens.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Lock, LockOpen } from "lucide-react";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import { loadAutoLockMinutes, lockVault, requestUnlock, saveAutoLockMinutes } from "@/lib/key-vault";
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: "5 minutos" },
+  { minutes: 15, label: "15 minutos" },
+  { minutes: 30, label: "30 minutos" },
+  { minutes: 60, label: "1 hora" },
+  { minutes: 0, label: "Nunca" },
+];
+
+const STATUS_LABEL = {
+  none: "Chaves sem senha mestra",
+  locked: "Cofre bloqueado",
+  unlocked: "Cofre desbloqueado",
+};
+
+export const KeyVaultButton = () => {
+  const { status } = useKeyVault();
+  const [autoLock, setAutoLock] = useState(loadAutoLockMinutes);
+  const unlocked = status === "unlocked";
+
+  const changeAutoLock = (value: string) => {
+    setAutoLock(Number(value));
+    saveAutoLockMinutes(Number(value));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title={STATUS_LABEL[status]}>
+          {unlocked ? <LockOpen className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm font-medium">{STATUS_LABEL[status]}</p>
+        {status === "none" && (
+          <p className="text-xs text-muted-foreground">
+            As API keys ainda estão em texto puro neste navegador. Crie uma senha mestra para criptografá-las.
+          </p>
+        )}
+        <div className="space-y-1">
+          <Label>Bloquear após inatividade</Label>
+          <Select value={String(autoLock)} onValueChange={changeAutoLock}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_LOCK_OPTIONS.map(({ minutes, label }) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {unlocked ? (
+          <Button size="sm" variant="outline" className="w-full" onClick={lockVault}>
+            <Lock className="w-4 h-4 mr-2" />
+            Bloquear agora
+          </Button>
+        ) : (
+          <Button size="sm" className="w-full" onClick={() => requestUnlock()}>
+            <LockOpen className="w-4 h-4 mr-2" />
+            {status === "none" ? "Criar senha mestra" : "Desbloquear"}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
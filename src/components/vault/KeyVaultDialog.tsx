@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Lock } from "lucide-react";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import { WrongPassphraseError, cancelUnlock, createVault, resetVault, unlockVault } from "@/lib/key-vault";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Montado uma vez no App; abre sempre que alguém precisa de uma chave com o cofre bloqueado
+export const KeyVaultDialog = () => {
+  const { status, unlockRequested } = useKeyVault();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [forgotten, setForgotten] = useState(false);
+  const creating = status === "none";
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirmation("");
+    setError("");
+    setForgotten(false);
+  };
+
+  const close = (open: boolean) => {
+    if (open) return;
+    reset();
+    cancelUnlock();
+  };
+
+  const submit = async () => {
+    if (creating) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("As senhas não conferem.");
+        return;
+      }
+    }
+    setBusy(true);
+    setError("");
+    try {
+      if (creating) await createVault(passphrase);
+      else await unlockVault(passphrase);
+      reset();
+    } catch (e) {
+      setError(e instanceof WrongPassphraseError ? e.message : "Não foi possível abrir o cofre.");
+      if (!(e instanceof WrongPassphraseError)) console.error(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const forget = () => {
+    resetVault();
+    reset();
+  };
+
+  return (
+    <Dialog open={unlockRequested} onOpenChange={close}>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            {creating ? "Criar cofre de chaves" : "Desbloquear cofre de chaves"}
+          </DialogTitle>
+          <DialogDescription>
+            {creating
+              ? "As API keys ficam criptografadas neste navegador com uma senha mestra. As chaves já salvas serão movidas para o cofre."
+              : "Digite a senha mestra para usar as API keys nesta sessão."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {forgotten ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Sem a senha não há como recuperar as chaves. Apagar o cofre remove todas as API keys salvas; depois é só criar
+              um cofre novo e colar as chaves de novo.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="destructive" className="flex-1" onClick={forget}>
+                Apagar cofre
+              </Button>
+              <Button variant="outline" onClick={() => setForgotten(false)}>
+                Voltar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">Senha mestra</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoFocus
+                autoComplete={creating ? "new-password" : "current-password"}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            {creating && (
+              <div className="space-y-2">
+                <Label htmlFor="vault-confirmation">Confirme a senha</Label>
+                <Input
+                  id="vault-confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex items-center gap-2">
+              <Button type="submit" className="flex-1" disabled={busy || !passphrase}>
+                {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {creating ? "Criar cofre" : "Desbloquear"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => close(false)}>
+                Cancelar
+              </Button>
+            </div>
+            {!creating && (
+              <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setForgotten(true)}>
+                Esqueci a senha
+              </Button>
+            )}
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getVaultStatus, isUnlockRequested, subscribeVault } from "@/lib/key-vault";
+
+export function useKeyVault() {
+  const status = useSyncExternalStore(subscribeVault, getVaultStatus);
+  const unlockRequested = useSyncExternalStore(subscribeVault, isUnlockRequested);
+  return { status, unlockRequested };
+}
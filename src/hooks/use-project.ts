@@ -0,0 +1,40 @@
+import { Dispatch, SetStateAction, createContext, useContext } from "react";
+import { ScriptData } from "@/types/ai-providers";
+import { Script, ScriptTranslation } from "@/types/script";
+import { ImageItem, Project, ProjectAudio } from "@/types/project";
+import { ScriptVersion } from "@/lib/script-versions";
+
+export type SaveState = "saved" | "pending" | "error";
+
+// Estado do projeto aberto, compartilhado pelas páginas de cada etapa e salvo automaticamente
+export interface ProjectWorkspace {
+  project: Project;
+  name: string;
+  setName: Dispatch<SetStateAction<string>>;
+  scriptData: ScriptData;
+  setScriptData: Dispatch<SetStateAction<ScriptData>>;
+  script: Script | null;
+  setScript: Dispatch<SetStateAction<Script | null>>;
+  headVersion: ScriptVersion | null;
+  setHeadVersion: Dispatch<SetStateAction<ScriptVersion | null>>;
+  translations: ScriptTranslation[];
+  setTranslations: Dispatch<SetStateAction<ScriptTranslation[]>>;
+  images: ImageItem[];
+  setImages: Dispatch<SetStateAction<ImageItem[]>>;
+  audio: ProjectAudio | null;
+  setAudio: Dispatch<SetStateAction<ProjectAudio | null>>;
+  // Tradução escolhida para a narração; vazio usa o roteiro original
+  audioLanguage: string;
+  setAudioLanguage: Dispatch<SetStateAction<string>>;
+  // Enquanto uma geração está em andamento o autosave espera
+  setBusy: Dispatch<SetStateAction<boolean>>;
+  saveState: SaveState;
+}
+
+export const ProjectContext = createContext<ProjectWorkspace | null>(null);
+
+export function useProject(): ProjectWorkspace {
+  const workspace = useContext(ProjectContext);
+  if (!workspace) throw new Error("useProject precisa estar dentro de um ProjectWorkspace");
+  return workspace;
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getProviders, subscribeProviders } from "@/components/ai/ProviderRegistry";
+
+export function useProviders() {
+  return useSyncExternalStore(subscribeProviders, getProviders);
+}
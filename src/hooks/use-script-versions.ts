@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getVersions, subscribeVersions } from "@/lib/script-versions";
+
+export function useScriptVersions() {
+  return useSyncExternalStore(subscribeVersions, getVersions);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getUsageEntries, subscribeUsage } from "@/lib/usage-ledger";
+
+export function useUsageEntries() {
+  return useSyncExternalStore(subscribeUsage, getUsageEntries);
+}
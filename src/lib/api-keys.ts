@@ -0,0 +1,162 @@
+import { AIProvider } from "@/types/ai-providers";
+import { hasSecret, onVaultLock, readSecret, writeSecret } from "@/lib/key-vault";
+import { clearKeyCheck } from "@/lib/key-validation";
+import { RateLimitError } from "@/lib/provider-errors";
+import { isProxied, proxyHasKey } from "@/lib/proxy-mode";
+
+const LABELS_KEY = "api_key_labels";
+const ROTATION_KEY = "api_key_rotation";
+
+// A chave principal continua no slot antigo (provider.keyName); as demais ficam em keyName:id
+export const PRIMARY_KEY_ID = "principal";
+
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+}
+
+// Chave escolhida por provider no projeto aberto; vazio usa a principal
+let projectKeys: Record<string, string> = {};
+// Slots que esgotaram a cota nesta sessão; a rotação pula para o próximo
+const exhaustedSlots = new Set<string>();
+// Slot de cada chave lida, para atribuir o consumo registrado à chave certa.
+// Guarda as chaves em texto puro, então some junto com o cofre ao bloquear
+const slotsByValue = new Map<string, string>();
+onVaultLock(() => slotsByValue.clear());
+
+export const apiKeySlot = (provider: AIProvider, keyId: string) =>
+  keyId === PRIMARY_KEY_ID ? provider.keyName : `${provider.keyName}:${keyId}`;
+
+function loadLabels(): Record<string, ApiKeyEntry[]> {
+  try {
+    return JSON.parse(localStorage.getItem(LABELS_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function saveLabels(provider: AIProvider, entries: ApiKeyEntry[]) {
+  localStorage.setItem(LABELS_KEY, JSON.stringify({ ...loadLabels(), [provider.keyName]: entries }));
+}
+
+// A principal sempre aparece primeiro, mesmo sem rótulo salvo
+export function listApiKeys(provider: AIProvider): ApiKeyEntry[] {
+  const saved = loadLabels()[provider.keyName] ?? [];
+  const primary = saved.find((k) => k.id === PRIMARY_KEY_ID) ?? { id: PRIMARY_KEY_ID, label: "Principal" };
+  return [primary, ...saved.filter((k) => k.id !== PRIMARY_KEY_ID)];
+}
+
+export function loadKeyRotation(): Record<string, boolean> {
+  try {
+    return JSON.parse(localStorage.getItem(ROTATION_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveKeyRotation(provider: AIProvider, enabled: boolean) {
+  localStorage.setItem(ROTATION_KEY, JSON.stringify({ ...loadKeyRotation(), [provider.id]: enabled }));
+}
+
+// O consumo e as chamadas daqui em diante usam as chaves escolhidas para este projeto
+export function setProjectKeys(keys: Record<string, string> | undefined) {
+  projectKeys = keys ?? {};
+}
+
+export const isKeyExhausted = (provider: AIProvider, keyId: string) => exhaustedSlots.has(apiKeySlot(provider, keyId));
+
+// Chave preferida do projeto primeiro, depois as demais na ordem cadastrada; só entram as que têm valor salvo
+function candidateSlots(provider: AIProvider): string[] {
+  const ids = listApiKeys(provider).map((k) => k.id);
+  const preferred = ids.includes(projectKeys[provider.id]) ? projectKeys[provider.id] : PRIMARY_KEY_ID;
+  return [preferred, ...ids.filter((id) => id !== preferred)]
+    .map((id) => apiKeySlot(provider, id))
+    .filter(hasSecret);
+}
+
+function activeSlot(provider: AIProvider): string {
+  const slots = candidateSlots(provider);
+  const available = loadKeyRotation()[provider.id] ? slots.find((slot) => !exhaustedSlots.has(slot)) : undefined;
+  return available ?? slots[0] ?? provider.keyName;
+}
+
+async function readSlot(slot: string): Promise<string> {
+  const value = await readSecret(slot);
+  if (value) slotsByValue.set(value, slot);
+  return value;
+}
+
+// Com o cofre bloqueado, pede a senha mestra antes de devolver a chave.
+// Sem keyId devolve a chave em uso no projeto (ou a próxima da rotação); no modo proxy a chave fica no servidor
+export function readApiKey(provider: AIProvider, keyId?: string): Promise<string> {
+  if (!keyId && isProxied(provider)) return Promise.resolve("");
+  return readSlot(keyId ? apiKeySlot(provider, keyId) : activeSlot(provider));
+}
+
+// Com rotação ativa, uma cota esgotada marca a chave e repete a tarefa com a próxima do provider
+export async function withApiKey<T>(provider: AIProvider, task: (apiKey: string) => Promise<T>): Promise<T> {
+  if (isProxied(provider)) return task("");
+  for (;;) {
+    const slot = activeSlot(provider);
+    try {
+      return await task(await readSlot(slot));
+    } catch (error) {
+      const quota = error instanceof RateLimitError && error.quotaExceeded;
+      if (!quota || !loadKeyRotation()[provider.id]) throw error;
+      exhaustedSlots.add(slot);
+      if (activeSlot(provider) === slot) throw error;
+    }
+  }
+}
+
+// Identifica no registro de consumo qual chave fez a chamada
+export const apiKeySlotOf = (apiKey: string) => slotsByValue.get(apiKey);
+
+export async function saveApiKey(provider: AIProvider, apiKey: string, keyId = PRIMARY_KEY_ID): Promise<void> {
+  const slot = apiKeySlot(provider, keyId);
+  await writeSecret(slot, apiKey.trim());
+  clearKeyCheck(slot);
+  exhaustedSlots.delete(slot);
+}
+
+export async function addApiKey(provider: AIProvider, label: string, apiKey: string): Promise<ApiKeyEntry> {
+  const entry = { id: crypto.randomUUID().slice(0, 8), label: label.trim() || "Chave extra" };
+  await saveApiKey(provider, apiKey, entry.id);
+  saveLabels(provider, [...listApiKeys(provider), entry]);
+  return entry;
+}
+
+export function renameApiKey(provider: AIProvider, keyId: string, label: string) {
+  saveLabels(
+    provider,
+    listApiKeys(provider).map((k) => (k.id === keyId ? { ...k, label: label.trim() || k.label } : k))
+  );
+}
+
+// A principal só perde o valor; as extras somem da lista
+export async function removeApiKey(provider: AIProvider, keyId: string): Promise<void> {
+  await saveApiKey(provider, "", keyId);
+  if (keyId !== PRIMARY_KEY_ID) saveLabels(provider, listApiKeys(provider).filter((k) => k.id !== keyId));
+}
+
+export async function removeAllApiKeys(provider: AIProvider): Promise<void> {
+  for (const { id } of listApiKeys(provider)) await removeApiKey(provider, id);
+}
+
+// Providers com chave opcional (endpoints locais) contam como configurados; no modo proxy vale o que o servidor informou
+export function hasApiKey(provider: AIProvider): boolean {
+  if (isProxied(provider)) return proxyHasKey(provider);
+  return Boolean(provider.apiKeyOptional || hasStoredApiKey(provider));
+}
+
+// Sem keyId, basta qualquer uma das chaves do provider
+export function hasStoredApiKey(provider: AIProvider, keyId?: string): boolean {
+  if (keyId) return hasSecret(apiKeySlot(provider, keyId));
+  return candidateSlots(provider).length > 0;
+}
+
+// Mostra só o começo e o fim, o bastante para reconhecer qual chave está salva
+export function maskApiKey(apiKey: string): string {
+  if (apiKey.length <= 8) return "•".repeat(apiKey.length);
+  return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
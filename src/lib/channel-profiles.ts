@@ -0,0 +1,58 @@
+const PROFILES_KEY = "channel_profiles";
+const ACTIVE_PROFILE_KEY = "active_channel_profile";
+
+// Persona do canal, enviada como mensagem de sistema em todas as chamadas de geração
+export interface ChannelProfile {
+  id: string;
+  name: string;
+  hostName: string;
+  tone: string;
+  catchphrases: string[];
+  bannedWords: string[];
+  recurringCta: string;
+  sponsorSegments: string[];
+}
+
+export function loadChannelProfiles(): ChannelProfile[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveChannelProfiles(profiles: ChannelProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfile(): ChannelProfile | undefined {
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return id ? loadChannelProfiles().find((p) => p.id === id) : undefined;
+}
+
+export function setActiveProfile(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+}
+
+const list = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+
+export function buildSystemPrompt(profile: ChannelProfile): string {
+  const parts = [`Você é o roteirista do canal do YouTube "${profile.name}". Todo roteiro deve soar como este canal.`];
+  if (profile.hostName) parts.push(`Apresentador: ${profile.hostName}. Escreva a narração na voz de quem apresenta, em primeira pessoa.`);
+  if (profile.tone) parts.push(`Tom de voz: ${profile.tone}`);
+  if (profile.catchphrases.length) {
+    parts.push(`Bordões do canal (use de forma natural, sem repetir em excesso):\n${list(profile.catchphrases)}`);
+  }
+  if (profile.bannedWords.length) {
+    parts.push(`Nunca use estas palavras ou expressões:\n${list(profile.bannedWords)}`);
+  }
+  if (profile.recurringCta) parts.push(`Call-to-action recorrente do canal (use no CTA): ${profile.recurringCta}`);
+  if (profile.sponsorSegments.length) {
+    parts.push(
+      `Inclua cada segmento de patrocínio abaixo em um ponto natural do roteiro, identificado como publicidade:\n${list(profile.sponsorSegments)}`
+    );
+  }
+  return parts.join("\n\n");
+}
@@ -0,0 +1,29 @@
+const STORAGE_KEY = "custom_providers";
+
+// Endpoint próprio no formato chat/completions (Ollama, LM Studio, vLLM, gateways internos)
+export interface CustomProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  maxOutputTokens: number;
+}
+
+export function loadCustomProviders(): CustomProviderConfig[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomProviders(configs: CustomProviderConfig[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+}
+
+// Aceita tanto a URL base (http://localhost:11434/v1) quanto o endpoint completo
+export function chatCompletionsUrl(baseUrl: string): string {
+  const url = baseUrl.trim().replace(/\/+$/, "");
+  return /\/chat\/completions$/.test(url) ? url : `${url}/chat/completions`;
+}
@@ -0,0 +1,40 @@
+import { AIProvider, GenerationParams, ModelOption } from "@/types/ai-providers";
+
+const storageKey = (providerId: string) => `generation_params_${providerId}`;
+
+export function getModel(provider: AIProvider, modelId: string): ModelOption | undefined {
+  return provider.models?.find((m) => m.id === modelId);
+}
+
+export function defaultGenerationParams(provider: AIProvider, modelId?: string): GenerationParams {
+  const model = (modelId && getModel(provider, modelId)) || provider.models?.[0];
+  return {
+    model: model?.id ?? "",
+    temperature: 0.7,
+    topP: 1,
+    maxTokens: model?.maxOutputTokens ?? 2000,
+  };
+}
+
+// Lê os parâmetros salvos para o provider, descartando modelos que não existem mais
+export function loadGenerationParams(provider: AIProvider): GenerationParams {
+  const defaults = defaultGenerationParams(provider);
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(provider.id)) || "null") as Partial<GenerationParams> | null;
+    if (!saved) return defaults;
+    const model = saved.model && getModel(provider, saved.model);
+    if (!model) return defaults;
+    return {
+      ...defaults,
+      ...saved,
+      model: model.id,
+      maxTokens: Math.min(saved.maxTokens ?? model.maxOutputTokens, model.maxOutputTokens),
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveGenerationParams(provider: AIProvider, params: GenerationParams) {
+  localStorage.setItem(storageKey(provider.id), JSON.stringify(params));
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpTimeoutError, httpRequest } from "@/lib/http-client";
+
+const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>();
+vi.stubGlobal("fetch", fetchMock);
+
+const respond = (status: number, headers?: Record<string, string>) => () =>
+  Promise.resolve(new Response(status === 204 ? null : "{}", { status, headers }));
+
+// fetch que só termina quando o signal recebido é abortado, como o fetch do navegador
+const hangingFetch = (_url: string, init: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+  });
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.restoreAllMocks();
+});
+
+describe("httpRequest", () => {
+  it("repete GET em 5xx e devolve a primeira resposta boa", async () => {
+    fetchMock.mockImplementationOnce(respond(503)).mockImplementationOnce(respond(200));
+
+    const response = await httpRequest("https://api.test/x", { baseDelayMs: 0 });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("devolve a última resposta quando as tentativas acabam", async () => {
+    fetchMock.mockImplementation(respond(500));
+
+    const response = await httpRequest("https://api.test/x", { retries: 2, baseDelayMs: 0 });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("não repete POST em 5xx, que pode ter sido cobrado", async () => {
+    fetchMock.mockImplementation(respond(502));
+
+    const response = await httpRequest("https://api.test/x", { method: "POST", baseDelayMs: 0 });
+
+    expect(response.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("repete POST em 429", async () => {
+    fetchMock.mockImplementationOnce(respond(429)).mockImplementationOnce(respond(200));
+
+    const response = await httpRequest("https://api.test/x", { method: "POST", baseDelayMs: 0 });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("não repete POST após falha de rede, mas repete GET", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+    await expect(httpRequest("https://api.test/x", { method: "POST", baseDelayMs: 0 })).rejects.toThrow(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch")).mockImplementationOnce(respond(200));
+    const response = await httpRequest("https://api.test/x", { baseDelayMs: 0 });
+    expect(response.status).toBe(200);
+  });
+
+  it("espera com jitter sobre o backoff exponencial", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    fetchMock.mockImplementationOnce(respond(503)).mockImplementationOnce(respond(503)).mockImplementationOnce(respond(200));
+    const delays: number[] = [];
+
+    await httpRequest("https://api.test/x", {
+      baseDelayMs: 4,
+      hooks: { onRetry: ({ delayMs }) => delays.push(delayMs) },
+    });
+
+    // metade de base * 2^tentativa
+    expect(delays).toEqual([4, 8]);
+  });
+
+  it("limita a espera ao Retry-After e ao máximo configurado", async () => {
+    fetchMock.mockImplementationOnce(respond(429, { "retry-after": "60" })).mockImplementationOnce(respond(200));
+    const delays: number[] = [];
+
+    await httpRequest("https://api.test/x", {
+      maxDelayMs: 5,
+      hooks: { onRetry: ({ delayMs }) => delays.push(delayMs) },
+    });
+
+    expect(delays).toEqual([5]);
+  });
+
+  it("lança HttpTimeoutError quando a resposta não começa no prazo", async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    await expect(httpRequest("https://api.test/x", { timeoutMs: 10, retries: 0 })).rejects.toBeInstanceOf(HttpTimeoutError);
+  });
+
+  it("cancela sem novas tentativas quando quem chama aborta", async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const request = httpRequest("https://api.test/x", { signal: controller.signal, baseDelayMs: 0 });
+    controller.abort();
+
+    await expect(request).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("continua repassando o abort depois que os headers chegaram", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    fetchMock.mockImplementation((_url, init) => {
+      fetchSignal = init.signal ?? undefined;
+      return respond(200)();
+    });
+    const controller = new AbortController();
+
+    await httpRequest("https://api.test/x", { signal: controller.signal });
+    controller.abort();
+
+    // Sem isso o corpo (um stream SSE, por exemplo) continuaria chegando depois do Parar
+    expect(fetchSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+export interface HttpRequestInfo {
+  url: string;
+  method: string;
+  attempt: number;
+}
+
+export interface HttpHooks {
+  onRequest?: (info: HttpRequestInfo) => void;
+  onResponse?: (info: HttpRequestInfo & { status: number; durationMs: number }) => void;
+  onRetry?: (info: HttpRequestInfo & { delayMs: number; reason: string }) => void;
+  onError?: (info: HttpRequestInfo & { error: unknown }) => void;
+}
+
+export interface HttpOptions extends RequestInit {
+  // Tempo máximo até a resposta começar a chegar, por tentativa
+  timeoutMs?: number;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Padrão: 429/5xx em GET/HEAD; só 429 nos demais métodos
+  retryOn?: (response: Response) => boolean;
+  // Padrão: só em GET/HEAD
+  retryNetworkErrors?: boolean;
+  hooks?: HttpHooks;
+}
+
+export class HttpTimeoutError extends Error {
+  constructor(public readonly url: string, public readonly timeoutMs: number) {
+    super(`Tempo esgotado após ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "HttpTimeoutError";
+  }
+}
+
+const globalHooks: HttpHooks[] = [];
+
+export function addHttpHooks(hooks: HttpHooks): () => void {
+  globalHooks.push(hooks);
+  return () => {
+    const index = globalHooks.indexOf(hooks);
+    if (index !== -1) globalHooks.splice(index, 1);
+  };
+}
+
+// Remove chaves passadas na query string (Gemini, YouTube) antes de logar
+export function redactUrl(url: string): string {
+  return url.replace(/([?&](?:key|api_key|apikey)=)[^&]+/gi, "$1***");
+}
+
+export const consoleHttpLogger: HttpHooks = {
+  onResponse: ({ url, method, attempt, status, durationMs }) =>
+    console.debug(`[http] ${method} ${redactUrl(url)} → ${status} em ${durationMs}ms (tentativa ${attempt})`),
+  onRetry: ({ url, method, attempt, delayMs, reason }) =>
+    console.warn(`[http] ${method} ${redactUrl(url)} falhou (${reason}); nova tentativa ${attempt + 1} em ${delayMs}ms`),
+  onError: ({ url, method, error }) => console.error(`[http] ${method} ${redactUrl(url)}`, error),
+};
+
+const defaultRetryOn = (response: Response) => response.status === 429 || response.status >= 500;
+// Um POST de geração é cobrado: depois de timeout, 5xx ou queda de conexão não dá para saber se o provider já
+// processou o pedido. Só o 429 garante que nada foi feito
+const nonIdempotentRetryOn = (response: Response) => response.status === 429;
+const SAFE_METHODS = ["GET", "HEAD"];
+
+function parseRetryAfterMs(response: Response): number | undefined {
+  const value = response.headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Backoff exponencial com jitter completo
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  // O listener fica enquanto o corpo é lido: cancelar depois dos headers também interrompe um stream
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener("abort", onAbort);
+    if (timedOut) throw new HttpTimeoutError(url, timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * fetch com timeout por tentativa, cancelamento e novas tentativas para 429/5xx e falhas de rede.
+ * POST e demais métodos não idempotentes só repetem 429, para não cobrar duas vezes a mesma geração.
+ * Depois da última tentativa a resposta é devolvida como veio; quem chama trata o status.
+ */
+export async function httpRequest(url: string, options: HttpOptions = {}): Promise<Response> {
+  const method = (options.method ?? "GET").toUpperCase();
+  const safe = SAFE_METHODS.includes(method);
+  const {
+    timeoutMs = 60000,
+    retries = 2,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    retryOn = safe ? defaultRetryOn : nonIdempotentRetryOn,
+    retryNetworkErrors = safe,
+    hooks,
+    signal,
+    ...init
+  } = options;
+  const allHooks = hooks ? [...globalHooks, hooks] : globalHooks;
+  const emit = (notify: (h: HttpHooks) => void) => allHooks.forEach(notify);
+
+  for (let attempt = 1; ; attempt++) {
+    const info = { url, method, attempt };
+    const isLast = attempt > retries;
+    emit((h) => h.onRequest?.(info));
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted || isLast || !retryNetworkErrors) {
+        emit((h) => h.onError?.({ ...info, error }));
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      const reason = error instanceof Error ? error.message : "falha de rede";
+      emit((h) => h.onRetry?.({ ...info, delayMs, reason }));
+      await sleep(delayMs, signal);
+      continue;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    emit((h) => h.onResponse?.({ ...info, status: response.status, durationMs }));
+    if (response.ok || isLast || !retryOn(response)) return response;
+
+    const retryAfterMs = parseRetryAfterMs(response);
+    const delayMs = Math.min(maxDelayMs, retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs));
+    emit((h) => h.onRetry?.({ ...info, delayMs, reason: `HTTP ${response.status}` }));
+    // Libera a conexão antes de esperar
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(delayMs, signal);
+  }
+}
@@ -0,0 +1,110 @@
+import { AIProvider, KeyCheckRequest } from "@/types/ai-providers";
+import { httpRequest } from "@/lib/http-client";
+import { ProviderError, describeError, providerErrorFromResponse } from "@/lib/provider-errors";
+import { ELEVENLABS_PROVIDER, KLING_PROVIDER, LEONARDO_PROVIDER, YOUTUBE_PROVIDER } from "@/lib/service-providers";
+import { klingToken } from "@/lib/kling-auth";
+
+const CHECKS_KEY = "api_key_checks";
+
+export interface KeyCheckResult {
+  checkedAt: number;
+  ok: boolean;
+  message?: string;
+}
+
+// Endpoints de leitura gratuitos (ou de custo mínimo de cota) de cada serviço
+const SERVICE_CHECKS: Record<string, (apiKey: string) => KeyCheckRequest | Promise<KeyCheckRequest>> = {
+  [YOUTUBE_PROVIDER.id]: (apiKey) => ({
+    url: `${YOUTUBE_PROVIDER.endpoint}/i18nLanguages?part=snippet&hl=pt_BR&key=${apiKey}`,
+    headers: {},
+  }),
+  [LEONARDO_PROVIDER.id]: (apiKey) => ({
+    url: `${LEONARDO_PROVIDER.endpoint}/me`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+  }),
+  [ELEVENLABS_PROVIDER.id]: (apiKey) => ({
+    url: `${ELEVENLABS_PROVIDER.endpoint}/user`,
+    headers: { "xi-api-key": apiKey },
+  }),
+  // Listar as tarefas não gera nada; serve para conferir o par de chaves
+  [KLING_PROVIDER.id]: async (apiKey) => ({
+    url: `${KLING_PROVIDER.endpoint}/v1/images/generations?pageNum=1&pageSize=1`,
+    headers: { Authorization: `Bearer ${await klingToken(apiKey)}` },
+  }),
+};
+
+export function loadKeyChecks(): Record<string, KeyCheckResult> {
+  try {
+    return JSON.parse(localStorage.getItem(CHECKS_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function saveKeyCheck(slot: string, result: KeyCheckResult) {
+  localStorage.setItem(CHECKS_KEY, JSON.stringify({ ...loadKeyChecks(), [slot]: result }));
+}
+
+// Chave nova ou apagada invalida o último teste
+export function clearKeyCheck(slot: string) {
+  const checks = loadKeyChecks();
+  if (!(slot in checks)) return;
+  delete checks[slot];
+  localStorage.setItem(CHECKS_KEY, JSON.stringify(checks));
+}
+
+// Confere o formato antes de salvar ou testar; undefined quando está certo
+export function keyFormatError(provider: AIProvider, apiKey: string): string | undefined {
+  const format = provider.keyFormat;
+  if (!format || format.pattern.test(apiKey.trim())) return undefined;
+  return `Formato esperado: ${format.placeholder}`;
+}
+
+export const canValidateKey = (provider: AIProvider) => Boolean(provider.adapter || SERVICE_CHECKS[provider.id]);
+
+// Sem endpoint de listagem, uma geração de 1 token confirma a chave pelo menor custo possível
+function minimalGeneration(provider: AIProvider, apiKey: string) {
+  const { url, headers, body } = provider.adapter!.buildRequest(apiKey, {
+    prompt: "ping",
+    params: { model: provider.models?.[0]?.id ?? "", temperature: 0, topP: 1, maxTokens: 1 },
+  });
+  return httpRequest(url, { method: "POST", headers, body: JSON.stringify(body), timeoutMs: 15000, retries: 0 });
+}
+
+// O resultado fica guardado pelo slot da chave no cofre (keyName ou keyName:id)
+export async function validateApiKey(
+  provider: AIProvider,
+  apiKey: string,
+  slot = provider.keyName
+): Promise<KeyCheckResult> {
+  const check = provider.adapter?.keyCheck ?? SERVICE_CHECKS[provider.id];
+  let result: KeyCheckResult;
+  try {
+    const formatError = keyFormatError(provider, apiKey);
+    if (formatError) throw new Error(formatError);
+    const request = await check?.(apiKey);
+    const response = request
+      ? await httpRequest(request.url, { headers: request.headers, timeoutMs: 15000, retries: 0 })
+      : await minimalGeneration(provider, apiKey);
+    if (!response.ok) {
+      const body = await response.text();
+      throw provider.adapter
+        ? provider.adapter.mapError(response.status, body, response.headers)
+        : providerErrorFromResponse(provider.name, response.status, body, response.headers);
+    }
+    result = { checkedAt: Date.now(), ok: true };
+  } catch (error) {
+    // fetch lança TypeError quando o navegador bloqueia a resposta (CORS) ou não há conexão
+    const message =
+      error instanceof TypeError
+        ? "Sem resposta do serviço (rede ou CORS)"
+        : error instanceof ProviderError
+          ? describeError(error).title
+          : error instanceof Error
+            ? error.message
+            : "Erro desconhecido";
+    result = { checkedAt: Date.now(), ok: false, message };
+  }
+  saveKeyCheck(slot, result);
+  return result;
+}
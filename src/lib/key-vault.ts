@@ -0,0 +1,237 @@
+// Cofre das API keys: um único blob AES-GCM no localStorage, com chave derivada da senha mestra via PBKDF2.
+// As chaves só existem em texto puro na memória, enquanto o cofre está desbloqueado.
+const VAULT_KEY = "api_key_vault";
+const AUTO_LOCK_KEY = "api_key_vault_auto_lock";
+const PBKDF2_ITERATIONS = 310_000;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown"] as const;
+
+// Antes do cofre toda chave ficava em texto puro com nomes como openai_api_key
+const isLegacyKeyName = (name: string) => name.endsWith("_api_key");
+
+export type VaultStatus = "none" | "locked" | "unlocked";
+
+interface StoredVault {
+  version: 1;
+  salt: string;
+  iv: string;
+  iterations: number;
+  // Só os nomes ficam legíveis, para saber quais providers têm chave sem pedir a senha
+  names: string[];
+  data: string;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("Desbloqueie o cofre de chaves para usar as API keys.");
+    this.name = "VaultLockedError";
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Senha mestra incorreta.");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+const listeners = new Set<() => void>();
+const lockListeners = new Set<() => void>();
+let cryptoKey: CryptoKey | null = null;
+let secrets: Record<string, string> = {};
+let autoLockTimer: number | undefined;
+// Pedidos de desbloqueio aguardando o diálogo; resolvem com true quando o cofre abre
+let unlockWaiters: ((unlocked: boolean) => void)[] = [];
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+function readStored(): StoredVault | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VAULT_KEY) || "null");
+    return stored?.version === 1 ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Reescreve o blob inteiro com IV novo a cada alteração
+async function persist(salt: string, iterations: number) {
+  if (!cryptoKey) throw new VaultLockedError();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plain = new TextEncoder().encode(JSON.stringify(secrets));
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, plain));
+  const vault: StoredVault = {
+    version: 1,
+    salt,
+    iv: toBase64(iv),
+    iterations,
+    names: Object.keys(secrets),
+    data: toBase64(encrypted),
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+}
+
+async function save() {
+  const stored = readStored();
+  if (!stored) throw new VaultLockedError();
+  await persist(stored.salt, stored.iterations);
+  notify();
+}
+
+// Move para o cofre as chaves que ainda estão em texto puro e as apaga do localStorage
+async function absorbLegacyKeys() {
+  const legacy = Object.keys(localStorage).filter(isLegacyKeyName);
+  if (!legacy.length) return;
+  for (const name of legacy) {
+    const value = localStorage.getItem(name);
+    if (value && !secrets[name]) secrets[name] = value;
+  }
+  await save();
+  legacy.forEach((name) => localStorage.removeItem(name));
+}
+
+export function loadAutoLockMinutes(): number {
+  const saved = Number(localStorage.getItem(AUTO_LOCK_KEY));
+  return localStorage.getItem(AUTO_LOCK_KEY) !== null && Number.isFinite(saved) ? saved : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+// 0 desativa o bloqueio automático
+export function saveAutoLockMinutes(minutes: number) {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  if (cryptoKey) touchVault();
+  notify();
+}
+
+function touchVault() {
+  window.clearTimeout(autoLockTimer);
+  const minutes = loadAutoLockMinutes();
+  if (minutes > 0) autoLockTimer = window.setTimeout(lockVault, minutes * 60_000);
+}
+
+function opened() {
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, touchVault, { passive: true }));
+  touchVault();
+  const waiters = unlockWaiters;
+  unlockWaiters = [];
+  waiters.forEach((resolve) => resolve(true));
+  notify();
+}
+
+export function getVaultStatus(): VaultStatus {
+  if (cryptoKey) return "unlocked";
+  return readStored() ? "locked" : "none";
+}
+
+export function subscribeVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Quem guarda em memória algo derivado das chaves (como o valor em texto puro) descarta aqui quando o cofre fecha
+export function onVaultLock(listener: () => void): () => void {
+  lockListeners.add(listener);
+  return () => lockListeners.delete(listener);
+}
+
+export const isUnlockRequested = () => unlockWaiters.length > 0;
+
+// Cria o cofre na primeira vez, já absorvendo as chaves em texto puro
+export async function createVault(passphrase: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  cryptoKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  secrets = {};
+  await persist(toBase64(salt), PBKDF2_ITERATIONS);
+  await absorbLegacyKeys();
+  opened();
+}
+
+export async function unlockVault(passphrase: string) {
+  const stored = readStored();
+  if (!stored) throw new Error("Nenhum cofre criado ainda");
+  const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+  } catch {
+    // O GCM falha na autenticação quando a chave derivada não é a mesma
+    throw new WrongPassphraseError();
+  }
+  cryptoKey = key;
+  secrets = JSON.parse(new TextDecoder().decode(plain));
+  await absorbLegacyKeys();
+  opened();
+}
+
+export function lockVault() {
+  window.clearTimeout(autoLockTimer);
+  ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, touchVault));
+  cryptoKey = null;
+  secrets = {};
+  lockListeners.forEach((listener) => listener());
+  notify();
+}
+
+// Esquecer a senha não tem volta: apaga o cofre e todas as chaves dele
+export function resetVault() {
+  localStorage.removeItem(VAULT_KEY);
+  lockVault();
+}
+
+// Abre o diálogo de desbloqueio (ou de criação) e espera a resposta de quem está usando o app
+export function requestUnlock(): Promise<boolean> {
+  if (cryptoKey) return Promise.resolve(true);
+  const request = new Promise<boolean>((resolve) => unlockWaiters.push(resolve));
+  notify();
+  return request;
+}
+
+export function cancelUnlock() {
+  const waiters = unlockWaiters;
+  unlockWaiters = [];
+  waiters.forEach((resolve) => resolve(false));
+  notify();
+}
+
+export function hasSecret(name: string): boolean {
+  if (cryptoKey) return Boolean(secrets[name]);
+  const stored = readStored();
+  return stored ? stored.names.includes(name) : Boolean(localStorage.getItem(name));
+}
+
+// Sem cofre criado ainda valem as chaves em texto puro; com cofre bloqueado, pede a senha antes
+export async function readSecret(name: string): Promise<string> {
+  if (getVaultStatus() === "none") return localStorage.getItem(name) || "";
+  if (!(await requestUnlock())) throw new VaultLockedError();
+  touchVault();
+  return secrets[name] || "";
+}
+
+// Apagar uma chave antes de existir cofre não precisa de senha
+export async function writeSecret(name: string, value: string) {
+  if (!value && getVaultStatus() === "none") {
+    localStorage.removeItem(name);
+    return;
+  }
+  if (!(await requestUnlock())) throw new VaultLockedError();
+  if (value) secrets[name] = value;
+  else delete secrets[name];
+  await save();
+}
@@ -0,0 +1,37 @@
+import { AuthError } from "@/lib/provider-errors";
+import { KLING_PROVIDER } from "@/lib/service-providers";
+
+const TOKEN_TTL_SECONDS = 1800;
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+// A chave da Kling é um par; guardada no cofre como "access_key:secret_key"
+function parseKlingKey(apiKey: string): { accessKey: string; secretKey: string } {
+  const separator = apiKey.indexOf(":");
+  if (separator <= 0 || separator === apiKey.length - 1) {
+    throw new AuthError(`${KLING_PROVIDER.name}: salve a chave no formato access_key:secret_key`, KLING_PROVIDER.name);
+  }
+  return { accessKey: apiKey.slice(0, separator).trim(), secretKey: apiKey.slice(separator + 1).trim() };
+}
+
+// A API não recebe a chave direto: cada chamada leva um JWT HS256 assinado com a secret key, válido por 30 minutos
+export async function klingToken(apiKey: string): Promise<string> {
+  const { accessKey, secretKey } = parseKlingKey(apiKey);
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeJson({ alg: "HS256", typ: "JWT" })}.${encodeJson({
+    iss: accessKey,
+    exp: now + TOKEN_TTL_SECONDS,
+    nbf: now - 5,
+  })}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secretKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
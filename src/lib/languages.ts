@@ -0,0 +1,32 @@
+export interface ScriptLanguage {
+  code: string;
+  // Nome exibido no formulário
+  label: string;
+  englishName: string;
+  nativeName: string;
+  rtl?: boolean;
+}
+
+export const DEFAULT_LANGUAGE = "pt-br";
+
+export const SCRIPT_LANGUAGES: ScriptLanguage[] = [
+  { code: "pt-br", label: "Português (Brasil)", englishName: "Brazilian Portuguese", nativeName: "Português (Brasil)" },
+  { code: "en", label: "Inglês", englishName: "English", nativeName: "English" },
+  { code: "es", label: "Espanhol", englishName: "Spanish", nativeName: "Español" },
+  { code: "fr", label: "Francês", englishName: "French", nativeName: "Français" },
+  { code: "de", label: "Alemão", englishName: "German", nativeName: "Deutsch" },
+  { code: "it", label: "Italiano", englishName: "Italian", nativeName: "Italiano" },
+  { code: "ja", label: "Japonês", englishName: "Japanese", nativeName: "日本語" },
+  { code: "ko", label: "Coreano", englishName: "Korean", nativeName: "한국어" },
+  { code: "zh", label: "Chinês (Mandarim)", englishName: "Mandarin Chinese (Simplified)", nativeName: "简体中文" },
+  { code: "ru", label: "Russo", englishName: "Russian", nativeName: "Русский" },
+  { code: "ar", label: "Árabe", englishName: "Arabic", nativeName: "العربية", rtl: true },
+  { code: "hi", label: "Hindi", englishName: "Hindi", nativeName: "हिन्दी" },
+];
+
+// Sem idioma escolhido, o roteiro sai em português
+export function getLanguage(code: string): ScriptLanguage {
+  return SCRIPT_LANGUAGES.find((l) => l.code === code) ?? SCRIPT_LANGUAGES[0];
+}
+
+export const textDirection = (code: string): "rtl" | "ltr" => (getLanguage(code).rtl ? "rtl" : "ltr");
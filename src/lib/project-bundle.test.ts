@@ -0,0 +1,50 @@
+import JSZip from "jszip";
+import { describe, expect, it, vi } from "vitest";
+import { BUNDLE_FORMAT, BUNDLE_VERSION } from "@/types/project-bundle";
+import { importProjectBundle } from "@/lib/project-bundle";
+import { saveProject } from "@/lib/project-store";
+
+vi.mock("@/lib/project-store", () => ({ saveProject: vi.fn(async () => undefined) }));
+
+async function bundle(manifest: unknown): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file("manifest.json", JSON.stringify(manifest));
+  return zip.generateAsync({ type: "blob" });
+}
+
+const manifestV1 = {
+  format: BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: 1700000000000,
+  project: {
+    name: "Projeto antigo",
+    createdAt: 1690000000000,
+    updatedAt: 1695000000000,
+    scriptData: { topic: "Café", duration: "5-10", style: "educativo" },
+    script: null,
+    images: [{ id: "topic-0", title: "Origem", prompt: "grãos de café" }],
+    audio: null,
+  },
+  templates: [],
+};
+
+describe("importProjectBundle", () => {
+  it("importa pacotes de versões anteriores do manifesto", async () => {
+    expect(BUNDLE_VERSION).toBeGreaterThan(1);
+
+    const project = await importProjectBundle(await bundle(manifestV1));
+
+    expect(project.name).toBe("Projeto antigo");
+    expect(project.scriptData.topic).toBe("Café");
+    expect(project.images).toEqual([
+      { id: "topic-0", title: "Origem", prompt: "grãos de café", imageUrl: undefined, videoUrl: undefined },
+    ]);
+    expect(saveProject).toHaveBeenCalledWith(project);
+  });
+
+  it("recusa pacotes de uma versão mais nova", async () => {
+    await expect(importProjectBundle(await bundle({ ...manifestV1, version: BUNDLE_VERSION + 1 }))).rejects.toThrow(
+      "versão mais nova"
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import JSZip from "jszip";
+import { ScriptData } from "@/types/ai-providers";
+import { ScriptTranslation } from "@/types/script";
+import { ImageItem, Project, ProjectAudio } from "@/types/project";
+import { PromptTemplate } from "@/types/prompt-template";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleAudio,
+  BundleImage,
+  ProjectManifest,
+  projectManifestSchema,
+} from "@/types/project-bundle";
+import { loadCustomTemplates, resolveTemplate, saveCustomTemplates } from "@/lib/prompt-templates";
+import { saveProject } from "@/lib/project-store";
+import { ScriptVersion } from "@/lib/script-versions";
+
+const MANIFEST_FILE = "manifest.json";
+
+type RawManifest = Record<string, unknown>;
+
+// Cada formato antigo ganha aqui um passo que o converte no seguinte, até chegar em BUNDLE_VERSION
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // A v1 só levava o template do estilo atual; a estrutura é a mesma
+  1: (manifest) => ({ ...manifest, version: 2 }),
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/ogg": "ogg",
+};
+
+const MIME_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+// Nome seguro dentro do zip; mantém letras acentuadas, troca o resto por hífen
+const safeName = (name: string) => name.replace(/[^\p{L}\p{N}._-]+/gu, "-").replace(/^-+|-+$/g, "") || "arquivo";
+
+export const bundleFileName = (project: Project) => `${safeName(project.name)}.zip`;
+
+// Template de cada estilo e idioma usado no projeto atual e nas versões do histórico. Só os personalizados
+// viajam no pacote; os padrões existem em qualquer instalação
+function templatesUsed(project: Project): PromptTemplate[] {
+  const templates = new Map<string, PromptTemplate>();
+  for (const { style, language } of [project.scriptData, ...project.versions.map((v) => v.scriptData)]) {
+    const template = resolveTemplate(style, language);
+    if (!template.builtIn) templates.set(template.id, { id: template.id, name: template.name, body: template.body });
+  }
+  return [...templates.values()];
+}
+
+async function addImage(zip: JSZip, item: ImageItem): Promise<BundleImage> {
+  const entry: BundleImage = { id: item.id, title: item.title, prompt: item.prompt, videoUrl: item.videoUrl };
+  if (!item.imageUrl) return entry;
+  try {
+    const response = await fetch(item.imageUrl);
+    if (!response.ok) throw new Error(String(response.status));
+    const blob = await response.blob();
+    const file = `images/${safeName(item.id)}.${EXTENSIONS[blob.type] ?? "png"}`;
+    zip.file(file, blob);
+    return { ...entry, file };
+  } catch (error) {
+    // URLs externas podem bloquear CORS; o link segue no manifesto para quem importar
+    console.warn(`Imagem "${item.title}" não pôde ser incluída no pacote:`, error);
+    return item.imageUrl.startsWith("data:") ? entry : { ...entry, url: item.imageUrl };
+  }
+}
+
+function addAudio(zip: JSZip, audio: ProjectAudio): BundleAudio {
+  const file = `audio/${safeName(audio.fileName)}`;
+  zip.file(file, audio.blob);
+  const { blob: _blob, ...metadata } = audio;
+  return { ...metadata, file };
+}
+
+export async function exportProjectBundle(project: Project): Promise<Blob> {
+  const zip = new JSZip();
+  const images: BundleImage[] = [];
+  for (const item of project.images) images.push(await addImage(zip, item));
+
+  const manifest: ProjectManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      name: project.name,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      scriptData: project.scriptData,
+      script: project.script,
+      versions: project.versions,
+      headVersionId: project.headVersionId,
+      translations: project.translations,
+      images,
+      audio: project.audio ? addAudio(zip, project.audio) : null,
+    },
+    templates: templatesUsed(project),
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob" });
+}
+
+function migrateManifest(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  let manifest = raw as RawManifest;
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error("O arquivo não é um pacote de projeto");
+  if (typeof manifest.version !== "number") return manifest;
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error("Pacote criado por uma versão mais nova do app; atualize antes de importar");
+  }
+  while ((manifest.version as number) < BUNDLE_VERSION) {
+    const migrate = MIGRATIONS[manifest.version as number];
+    if (!migrate) throw new Error(`Versão ${manifest.version} do pacote não é suportada`);
+    manifest = migrate(manifest);
+  }
+  return manifest;
+}
+
+function readDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// O zip não guarda o tipo dos arquivos; a extensão devolve o MIME que o navegador precisa para exibir
+async function readFile(zip: JSZip, path: string): Promise<Blob> {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Arquivo ${path} ausente no pacote`);
+  const data = await entry.async("blob");
+  const type = MIME_TYPES[path.split(".").pop()?.toLowerCase() ?? ""] ?? "";
+  return type ? new Blob([data], { type }) : data;
+}
+
+// Mescla com os templates salvos, substituindo os de mesmo id
+function mergeTemplates(templates: PromptTemplate[]) {
+  if (!templates.length) return;
+  const ids = new Set(templates.map((t) => t.id));
+  saveCustomTemplates([...loadCustomTemplates().filter((t) => !ids.has(t.id)), ...templates]);
+}
+
+// Sempre cria um projeto novo, para nunca sobrescrever o trabalho de quem importa
+export async function importProjectBundle(file: Blob): Promise<Project> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("O arquivo não é um zip válido");
+  }
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error("Pacote sem manifest.json");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    throw new Error("manifest.json não é um JSON válido");
+  }
+  const parsed = projectManifestSchema.safeParse(migrateManifest(raw));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Manifesto inválido: ${issue.path.join(".") || "raiz"} — ${issue.message}`);
+  }
+  const { project: data, templates } = parsed.data;
+
+  const images: ImageItem[] = [];
+  for (const { id, title, prompt, file: path, url, videoUrl } of data.images) {
+    const imageUrl = path ? await readDataUrl(await readFile(zip, path)) : url;
+    images.push({ id, title, prompt, imageUrl, videoUrl });
+  }
+
+  let audio: ProjectAudio | null = null;
+  if (data.audio) {
+    const { file: path, fileName, language, voiceId, modelId, createdAt } = data.audio;
+    audio = { blob: await readFile(zip, path), fileName, language, voiceId, modelId, createdAt };
+  }
+
+  // Sem strictNullChecks o zod infere todos os campos como opcionais; o schema já garantiu que existem
+  const project: Project = {
+    id: crypto.randomUUID(),
+    name: data.name,
+    createdAt: data.createdAt,
+    updatedAt: Date.now(),
+    scriptData: data.scriptData as ScriptData,
+    script: data.script,
+    versions: data.versions as ScriptVersion[],
+    headVersionId: data.headVersionId,
+    translations: data.translations as ScriptTranslation[],
+    images,
+    audio,
+  };
+  await saveProject(project);
+  mergeTemplates(templates);
+  return project;
+}
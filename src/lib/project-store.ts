@@ -0,0 +1,99 @@
+import { ScriptData } from "@/types/ai-providers";
+import { Project } from "@/types/project";
+import { takeLegacyVersions } from "@/lib/script-versions";
+
+const DB_NAME = "gerador-roteiros";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+// Resolve só depois do commit da transação, para que uma gravação concluída sobreviva a um reload
+async function inStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, mode);
+  const request = run(transaction.objectStore(STORE));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transação cancelada"));
+  });
+}
+
+export const emptyScriptData = (): ScriptData => ({
+  topic: "",
+  duration: "",
+  style: "",
+  styleKeywords: "",
+  language: "",
+  niche: "",
+  subniche: "",
+  microniche: "",
+  nanoniche: "",
+  audience: "",
+  additionalInfo: "",
+  youtubeLink: "",
+  qualified: false,
+});
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await inStore("readonly", (store) => store.getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return inStore("readonly", (store) => store.get(id) as IDBRequest<Project | undefined>);
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  await inStore("readwrite", (store) => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await inStore("readwrite", (store) => store.delete(id));
+}
+
+export async function createProject(name: string): Promise<Project> {
+  const now = Date.now();
+  // O primeiro projeto herda o histórico de versões que ficava no localStorage
+  const versions = (await listProjects()).length ? [] : takeLegacyVersions();
+  const latest = versions[versions.length - 1];
+  const project: Project = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    scriptData: latest?.scriptData ?? emptyScriptData(),
+    script: latest?.script ?? null,
+    versions,
+    headVersionId: latest?.id,
+    translations: [],
+    images: [],
+    audio: null,
+  };
+  await saveProject(project);
+  return project;
+}
+
+export async function duplicateProject(id: string): Promise<Project> {
+  const source = await getProject(id);
+  if (!source) throw new Error("Projeto não encontrado");
+  const now = Date.now();
+  const copy: Project = { ...source, id: crypto.randomUUID(), name: `${source.name} (cópia)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+}
@@ -0,0 +1,290 @@
+import { OutlineSection } from "@/types/script";
+import { DEFAULT_LANGUAGE, ScriptLanguage } from "@/lib/languages";
+
+export type PromptLocaleId = "pt" | "en";
+
+export interface SectionPromptParts {
+  specifications: string;
+  structure: string;
+  section: OutlineSection;
+  index: number;
+  previousContent?: string;
+}
+
+export type RewriteAction = "shorten" | "punchier" | "expand" | "example";
+
+export interface RewritePromptParts {
+  title: string;
+  context: string;
+  selection: string;
+  instruction: string;
+}
+
+// Textos fixos dos prompts em um idioma de instrução
+export interface PromptLocale {
+  id: PromptLocaleId;
+  specifications: string;
+  defaultBody: string;
+  styleGuidance: (label: string, guidance: string) => string;
+  fallbackValues: { none: string; notInformed: string; noLink: string; general: string; yes: string; no: string };
+  languageName: (language: ScriptLanguage) => string;
+  responseFormat: string;
+  outlinePrompt: (specifications: string) => string;
+  sectionPrompt: (parts: SectionPromptParts) => string;
+  translatePrompt: (script: string, language: string) => string;
+  rewriteActions: Record<RewriteAction, string>;
+  rewritePrompt: (parts: RewritePromptParts) => string;
+}
+
+const PT: PromptLocale = {
+  id: "pt",
+  specifications: `**Tópico:** {{topic}}
+**Duração:** {{duration}} minutos
+**Estilo:** {{style}}
+**Palavras-chave do estilo:** {{styleKeywords}}
+**Idioma:** {{language}}
+**Nicho:** {{niche}}
+**Sobrenicho:** {{subniche}}
+**Micronicho:** {{microniche}}
+**Nanonicho:** {{nanoniche}}
+**Link de referência (YouTube):** {{youtubeLink}}
+**Público qualificado:** {{qualified}}
+**Público-alvo:** {{audience}}
+**Informações adicionais:** {{additionalInfo}}`,
+  defaultBody: `Crie um roteiro detalhado para um vídeo do YouTube com as seguintes especificações:
+
+{{specifications}}
+
+O roteiro deve incluir:
+1. Hook inicial (primeiros 15 segundos)
+2. Introdução e apresentação do problema/tópico
+3. Desenvolvimento do conteúdo principal (dividido em seções)
+4. Call-to-action para inscrição e likes
+5. Conclusão e próximos passos
+6. Outro (final do vídeo)
+
+Use uma linguagem envolvente e adequada para YouTube.
+Inclua sugestões de elementos visuais quando relevante.
+Adapte o tom e a linguagem conforme as palavras-chave do estilo fornecidas.
+Adapte o conteúdo ao nicho e subnichos especificados.
+Se houver link do YouTube, use-o apenas como referência (sem copiar), destacando diferenciais e atualizações.
+Se o público for qualificado, aprofunde a terminologia e a complexidade; caso contrário, simplifique e use exemplos práticos.
+Escreva todo o roteiro no idioma especificado pelo usuário.`,
+  styleGuidance: (label, guidance) => `Diretrizes para o estilo ${label}:\n${guidance}`,
+  fallbackValues: {
+    none: "Nenhuma",
+    notInformed: "Não informado",
+    noLink: "Nenhum",
+    general: "Geral",
+    yes: "Sim",
+    no: "Não",
+  },
+  languageName: (language) =>
+    language.nativeName === language.label ? language.label : `${language.label} (${language.nativeName})`,
+  responseFormat: `Responda APENAS com um objeto JSON, sem texto adicional, no formato:
+{
+  "title": "Título do vídeo",
+  "hook": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 15 },
+  "intro": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 45 },
+  "sections": [
+    { "title": "Título da seção", "narration": "...", "visualCues": ["..."], "estimatedSeconds": 120 }
+  ],
+  "cta": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 20 },
+  "outro": { "narration": "Conclusão, próximos passos e encerramento", "visualCues": ["..."], "estimatedSeconds": 30 }
+}
+"narration" é o texto falado, "visualCues" são sugestões de elementos visuais e "estimatedSeconds" é o tempo aproximado do trecho.
+A soma dos tempos deve corresponder à duração especificada.`,
+  outlinePrompt: (specifications) => `
+Planeje a estrutura de um roteiro longo para um vídeo do YouTube com as seguintes especificações:
+
+${specifications}
+
+Divida o vídeo em 6 a 12 seções com marcações de tempo contínuas que somem a duração total.
+A primeira seção deve ser o hook inicial e a última o encerramento com call-to-action e outro.
+Escreva títulos e resumos no idioma especificado pelo usuário.
+Responda APENAS com um array JSON, sem texto adicional, no formato:
+[{"title": "Título da seção", "start": "00:00", "end": "00:45", "summary": "O que a seção cobre"}]
+`,
+  sectionPrompt: ({ specifications, structure, section, index, previousContent }) => `
+Você está escrevendo um roteiro longo para um vídeo do YouTube, uma seção por vez.
+
+${specifications}
+
+**Estrutura completa do vídeo:**
+${structure}
+
+${
+  previousContent
+    ? `Trecho final da seção anterior (continue a partir dele, sem repetir):\n${previousContent}`
+    : "Esta é a primeira seção do vídeo."
+}
+
+Escreva agora APENAS a seção ${index + 1}: "${section.title}" (${section.start} - ${section.end}).
+Não inclua o título da seção nem outras seções.
+Escreva a narração completa, com tamanho proporcional ao tempo da seção (cerca de 150 palavras por minuto).
+Inclua sugestões de elementos visuais entre colchetes quando relevante.
+Mantenha o tom, o estilo e o idioma especificados.
+`,
+  translatePrompt: (script, language) => `
+Traduza para ${language} o roteiro de vídeo do YouTube abaixo, em JSON.
+
+${script}
+
+Traduza os valores de "title", "narration" e "visualCues" de forma natural para quem fala ${language}, adaptando expressões e exemplos sem mudar o sentido.
+Mantenha as mesmas seções, na mesma ordem, e não altere nenhum valor de "estimatedSeconds".
+Não traduza nomes de marcas, produtos ou do canal.
+Responda APENAS com o objeto JSON traduzido, sem texto adicional, com as mesmas chaves.
+`,
+  rewriteActions: {
+    shorten: "Encurte o texto mantendo as ideias principais.",
+    punchier: "Deixe o texto mais impactante e direto, com frases curtas e verbos fortes.",
+    expand: "Expanda o texto com mais detalhes e explicações, sem fugir do assunto.",
+    example: "Acrescente um exemplo concreto e curto que ilustre a ideia.",
+  },
+  rewritePrompt: ({ title, context, selection, instruction }) => `
+Você está editando um roteiro de vídeo do YouTube.
+
+**Seção "${title}":**
+${context}
+
+**Trecho selecionado:**
+${selection}
+
+**Instrução:** ${instruction}
+
+Reescreva apenas o trecho selecionado seguindo a instrução, no mesmo idioma e tom do roteiro, para que ele se encaixe no mesmo lugar da seção.
+Responda APENAS com o novo trecho, sem aspas, comentários ou marcações.
+`,
+};
+
+// Instruções em inglês para os demais idiomas; o idioma do roteiro é pedido explicitamente
+const EN: PromptLocale = {
+  id: "en",
+  specifications: `**Topic:** {{topic}}
+**Duration:** {{duration}} minutes
+**Style:** {{style}}
+**Style keywords:** {{styleKeywords}}
+**Script language:** {{language}}
+**Niche:** {{niche}}
+**Sub-niche:** {{subniche}}
+**Micro-niche:** {{microniche}}
+**Nano-niche:** {{nanoniche}}
+**Reference link (YouTube):** {{youtubeLink}}
+**Expert audience:** {{qualified}}
+**Target audience:** {{audience}}
+**Additional information:** {{additionalInfo}}`,
+  defaultBody: `Write a detailed script for a YouTube video with the following specifications:
+
+{{specifications}}
+
+The script must include:
+1. Opening hook (first 15 seconds)
+2. Introduction presenting the problem/topic
+3. Main content (split into sections)
+4. Call-to-action to subscribe and like
+5. Conclusion and next steps
+6. Outro (end of the video)
+
+Use engaging language suited to YouTube.
+Include visual suggestions where relevant.
+Match the tone and wording to the style keywords provided.
+Tailor the content to the niche and sub-niches specified.
+If there is a YouTube link, use it only as a reference (do not copy it), highlighting what is new or different.
+If the audience is expert, go deeper into terminology and complexity; otherwise simplify and use practical examples.
+Write the entire script natively in {{language}}, with idioms, examples and cultural references natural to its speakers. Do not write it in English and translate it.
+These instructions are in English only as a shared working language: every word of your answer must be in {{language}}.`,
+  styleGuidance: (label, guidance) => `Guidelines for the ${label} style:\n${guidance}`,
+  fallbackValues: {
+    none: "None",
+    notInformed: "Not specified",
+    noLink: "None",
+    general: "General",
+    yes: "Yes",
+    no: "No",
+  },
+  languageName: (language) =>
+    language.nativeName === language.englishName ? language.englishName : `${language.englishName} (${language.nativeName})`,
+  responseFormat: `Reply ONLY with a JSON object, with no additional text, in this format:
+{
+  "title": "Video title",
+  "hook": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 15 },
+  "intro": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 45 },
+  "sections": [
+    { "title": "Section title", "narration": "...", "visualCues": ["..."], "estimatedSeconds": 120 }
+  ],
+  "cta": { "narration": "...", "visualCues": ["..."], "estimatedSeconds": 20 },
+  "outro": { "narration": "Conclusion, next steps and sign-off", "visualCues": ["..."], "estimatedSeconds": 30 }
+}
+"narration" is the spoken text, "visualCues" are visual suggestions and "estimatedSeconds" is the approximate length of the segment.
+Keep the JSON keys in English; write every value only in the script language given in the specifications, never in English unless that is the script language.
+The segment lengths must add up to the specified duration.`,
+  outlinePrompt: (specifications) => `
+Plan the structure of a long-form script for a YouTube video with the following specifications:
+
+${specifications}
+
+Split the video into 6 to 12 sections with continuous timestamps that add up to the total duration.
+The first section must be the opening hook and the last one the closing with call-to-action and outro.
+Write titles and summaries only in the script language, never in English unless that is the script language.
+Reply ONLY with a JSON array, with no additional text, in this format:
+[{"title": "Section title", "start": "00:00", "end": "00:45", "summary": "What the section covers"}]
+`,
+  sectionPrompt: ({ specifications, structure, section, index, previousContent }) => `
+You are writing a long-form script for a YouTube video, one section at a time.
+
+${specifications}
+
+**Full video structure:**
+${structure}
+
+${
+  previousContent
+    ? `End of the previous section (continue from it without repeating):\n${previousContent}`
+    : "This is the first section of the video."
+}
+
+Now write ONLY section ${index + 1}: "${section.title}" (${section.start} - ${section.end}).
+Do not include the section title or any other section.
+Write the full narration, with a length proportional to the section's time (about 150 words per minute).
+Include visual suggestions in square brackets where relevant.
+Keep the specified tone and style, and write only in the script language, never in English unless that is the script language.
+`,
+  translatePrompt: (script, language) => `
+Translate the YouTube video script below, given as JSON, into ${language}.
+
+${script}
+
+Translate the values of "title", "narration" and "visualCues" so they read naturally to ${language} speakers, adapting idioms and examples without changing the meaning.
+Keep the same sections in the same order and do not change any "estimatedSeconds" value.
+Do not translate brand, product or channel names.
+Reply ONLY with the translated JSON object, with no additional text and the same keys in English.
+`,
+  rewriteActions: {
+    shorten: "Shorten the text while keeping the main ideas.",
+    punchier: "Make the text punchier and more direct, with short sentences and strong verbs.",
+    expand: "Expand the text with more detail and explanation, staying on topic.",
+    example: "Add a short, concrete example that illustrates the idea.",
+  },
+  rewritePrompt: ({ title, context, selection, instruction }) => `
+You are editing a YouTube video script.
+
+**Section "${title}":**
+${context}
+
+**Selected passage:**
+${selection}
+
+**Instruction:** ${instruction}
+
+Rewrite only the selected passage following the instruction, in the same language and tone as the script, so it fits back into the same place in the section.
+Reply ONLY with the new passage, with no quotes, comments or markup.
+`,
+};
+
+export const PROMPT_LOCALES: Record<PromptLocaleId, PromptLocale> = { pt: PT, en: EN };
+
+// Instruções em português só para roteiros em português; os demais idiomas recebem as instruções em inglês,
+// que todos os modelos seguem bem, com a regra explícita de responder apenas no idioma do roteiro
+export function promptLocale(languageCode: string): PromptLocale {
+  return !languageCode || languageCode === DEFAULT_LANGUAGE ? PT : EN;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate } from "@/lib/prompt-templates";
+import { ScriptData } from "@/types/ai-providers";
+
+const scriptData = (overrides: Partial<ScriptData> = {}): ScriptData => ({
+  topic: "Café coado",
+  duration: "10",
+  style: "tutorial",
+  styleKeywords: "",
+  language: "pt-br",
+  niche: "Culinária",
+  subniche: "",
+  microniche: "",
+  nanoniche: "",
+  audience: "",
+  additionalInfo: "",
+  youtubeLink: "",
+  qualified: false,
+  ...overrides,
+});
+
+describe("renderTemplate", () => {
+  it("substitui placeholders com ou sem espaços internos", () => {
+    expect(renderTemplate("{{topic}} em {{ duration }} min ({{  niche  }})", scriptData())).toBe(
+      "Café coado em 10 min (Culinária)"
+    );
+  });
+
+  it("mantém placeholders desconhecidos para aparecerem na pré-visualização", () => {
+    expect(renderTemplate("{{ topic }} — {{ tema }}", scriptData())).toBe("Café coado — {{ tema }}");
+  });
+
+  it("usa os valores padrão em português para campos vazios", () => {
+    const rendered = renderTemplate(
+      "{{style}}|{{styleKeywords}}|{{subniche}}|{{audience}}|{{qualified}}|{{language}}",
+      scriptData()
+    );
+    expect(rendered).toBe("Tutorial / How-To|Nenhuma|Não informado|Geral|Não|Português (Brasil)");
+  });
+
+  it("usa rótulos e valores padrão em inglês para os demais idiomas", () => {
+    const rendered = renderTemplate(
+      "{{style}}|{{styleKeywords}}|{{subniche}}|{{audience}}|{{qualified}}|{{language}}",
+      scriptData({ language: "ja", style: "educacional", qualified: true })
+    );
+    expect(rendered).toBe("Educational / Explainer|None|Not specified|General|Yes|Japanese (日本語)");
+  });
+
+  it("repassa estilos fora da lista sem alterar", () => {
+    expect(renderTemplate("{{style}}", scriptData({ style: "asmr" }))).toBe("asmr");
+  });
+});
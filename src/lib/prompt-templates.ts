@@ -0,0 +1,332 @@
+import { ScriptData } from "@/types/ai-providers";
+import { PromptTemplate, PromptTemplateExport, promptTemplateExportSchema } from "@/types/prompt-template";
+import { DEFAULT_LANGUAGE, getLanguage } from "@/lib/languages";
+import { PromptLocale, promptLocale } from "@/lib/prompt-locales";
+
+const TEMPLATES_KEY = "prompt_templates";
+const STYLE_TEMPLATES_KEY = "prompt_template_by_style";
+
+export interface VideoStyle {
+  value: string;
+  label: string;
+  guidance: string;
+  // Usado nos prompts com instruções em inglês
+  en: { label: string; guidance: string };
+}
+
+export const VIDEO_STYLES: VideoStyle[] = [
+  {
+    value: "vlog-pessoal",
+    label: "Vlog Pessoal",
+    guidance: "Narre em primeira pessoa, com tom próximo e espontâneo. Mostre bastidores e reações sinceras, com sugestões de câmera na mão e momentos do dia a dia.",
+    en: {
+      label: "Personal Vlog",
+      guidance: "Narrate in the first person with a close, spontaneous tone. Show behind-the-scenes moments and honest reactions, with handheld shots and everyday moments.",
+    },
+  },
+  {
+    value: "tutorial",
+    label: "Tutorial / How-To",
+    guidance: "Organize o conteúdo em passos numerados e verificáveis. Mostre o resultado final logo no início e antecipe os erros mais comuns em cada passo.",
+    en: {
+      label: "Tutorial / How-To",
+      guidance: "Organize the content into numbered, verifiable steps. Show the end result right at the start and anticipate the most common mistakes at each step.",
+    },
+  },
+  {
+    value: "educacional",
+    label: "Educacional / Explicativo",
+    guidance: "Vá do conceito mais simples ao mais complexo, com analogias e exemplos concretos. Recapitule os pontos-chave antes do encerramento.",
+    en: {
+      label: "Educational / Explainer",
+      guidance: "Move from the simplest concept to the most complex, with analogies and concrete examples. Recap the key points before the ending.",
+    },
+  },
+  {
+    value: "documentario",
+    label: "Documentário Curto",
+    guidance: "Construa uma narrativa com contexto, conflito e desfecho, narrada em terceira pessoa. Use dados verificáveis e sugira imagens de arquivo e reconstituições.",
+    en: {
+      label: "Short Documentary",
+      guidance: "Build a narrative with context, conflict and resolution, narrated in the third person. Use verifiable data and suggest archive footage and reenactments.",
+    },
+  },
+  {
+    value: "top-10",
+    label: "Top 10 / Listas",
+    guidance: "Apresente os itens em contagem regressiva, guardando o mais forte para o final. Cada item deve ter título, justificativa curta e um fato marcante.",
+    en: {
+      label: "Top 10 / Lists",
+      guidance: "Present the items as a countdown, saving the strongest for last. Each item needs a title, a short justification and a striking fact.",
+    },
+  },
+  {
+    value: "experimentos",
+    label: "Experimentos",
+    guidance: "Apresente hipótese, método e resultado. Crie suspense antes de revelar o resultado e explique por que ele aconteceu.",
+    en: {
+      label: "Experiments",
+      guidance: "Present the hypothesis, method and result. Build suspense before revealing the result and explain why it happened.",
+    },
+  },
+  {
+    value: "opiniao",
+    label: "Opinião / Comentário",
+    guidance: "Deixe a tese clara logo no começo, apresente argumentos e contra-argumentos e encerre com uma posição firme, convidando o público a comentar.",
+    en: {
+      label: "Opinion / Commentary",
+      guidance: "State the thesis clearly at the start, present arguments and counterarguments, and close with a firm position that invites viewers to comment.",
+    },
+  },
+  {
+    value: "reacao",
+    label: "Reação (React)",
+    guidance: "Estruture o roteiro em torno dos momentos do conteúdo original, com comentários que agreguem contexto. Indique onde pausar o vídeo original.",
+    en: {
+      label: "Reaction",
+      guidance: "Structure the script around the moments of the original content, with commentary that adds context. Mark where to pause the original video.",
+    },
+  },
+  {
+    value: "estudo-caso",
+    label: "Estudo de Caso",
+    guidance: "Apresente contexto, problema, decisões tomadas e resultados com números. Termine com lições que o público possa aplicar.",
+    en: {
+      label: "Case Study",
+      guidance: "Present the context, the problem, the decisions made and the results with numbers. End with lessons the audience can apply.",
+    },
+  },
+  {
+    value: "desafio",
+    label: "Desafio",
+    guidance: "Explique as regras e o que está em jogo logo no início, mantenha a tensão com marcos de progresso e revele o resultado no clímax.",
+    en: {
+      label: "Challenge",
+      guidance: "Explain the rules and the stakes right away, keep the tension with progress milestones and reveal the outcome at the climax.",
+    },
+  },
+  {
+    value: "analise-tecnica",
+    label: "Análise Técnica / Gráfica",
+    guidance: "Guie o espectador pelos gráficos e indicadores passo a passo, explicando cada leitura. Inclua avisos de risco quando falar de mercado financeiro.",
+    en: {
+      label: "Technical / Chart Analysis",
+      guidance: "Walk the viewer through the charts and indicators step by step, explaining each reading. Include risk warnings when discussing financial markets.",
+    },
+  },
+  {
+    value: "tecnologia",
+    label: "Tecnologia e Gadgets",
+    guidance: "Cubra especificações relevantes, experiência de uso, prós e contras e para quem o produto vale a pena. Sugira tomadas de detalhe do produto.",
+    en: {
+      label: "Tech and Gadgets",
+      guidance: "Cover the relevant specs, hands-on experience, pros and cons, and who the product is worth it for. Suggest close-up product shots.",
+    },
+  },
+  {
+    value: "entrevistas",
+    label: "Entrevistas / Podcast",
+    guidance: "Escreva como roteiro de conversa: apresentação do convidado, blocos de perguntas em ordem lógica e perguntas de aprofundamento.",
+    en: {
+      label: "Interviews / Podcast",
+      guidance: "Write it as a conversation script: guest introduction, question blocks in a logical order and follow-up questions.",
+    },
+  },
+  {
+    value: "curiosidades",
+    label: "Curiosidades / Fatos Rápidos",
+    guidance: "Use frases curtas e ritmo acelerado, com um fato surpreendente por bloco e transições rápidas entre eles.",
+    en: {
+      label: "Trivia / Quick Facts",
+      guidance: "Use short sentences and a fast pace, with one surprising fact per block and quick transitions between them.",
+    },
+  },
+  {
+    value: "motivacional",
+    label: "Motivacional / Mentalidade",
+    guidance: "Use histórias de superação e linguagem emocional, com uma mensagem central repetida ao longo do vídeo e um chamado à ação pessoal no final.",
+    en: {
+      label: "Motivational / Mindset",
+      guidance: "Use stories of overcoming adversity and emotional language, with a central message repeated throughout and a personal call to action at the end.",
+    },
+  },
+  {
+    value: "comparativo",
+    label: "Comparativo",
+    guidance: "Defina os critérios de comparação no início e avalie cada opção em cada critério. Termine com uma recomendação para cada perfil de uso.",
+    en: {
+      label: "Comparison",
+      guidance: "Define the comparison criteria at the start and rate each option on each criterion. End with a recommendation for each type of user.",
+    },
+  },
+  {
+    value: "misterios",
+    label: "Mistérios e Teorias",
+    guidance: "Crie uma atmosfera de suspense, apresente evidências e teorias separando fatos de especulação e deixe perguntas em aberto para os comentários.",
+    en: {
+      label: "Mysteries and Theories",
+      guidance: "Create a suspenseful atmosphere, present evidence and theories while separating facts from speculation, and leave open questions for the comments.",
+    },
+  },
+  {
+    value: "turismo",
+    label: "Turismo / Viagens",
+    guidance: "Inclua roteiro prático, custos aproximados, melhor época para visitar e dicas locais. Sugira tomadas panorâmicas e de detalhes do lugar.",
+    en: {
+      label: "Travel / Tourism",
+      guidance: "Include a practical itinerary, approximate costs, the best time to visit and local tips. Suggest panoramic shots and details of the place.",
+    },
+  },
+  {
+    value: "ferramentas",
+    label: "Ferramentas / Dicas Práticas",
+    guidance: "Vá direto às dicas, cada uma com uma demonstração rápida e um benefício claro. Priorize o que pode ser aplicado imediatamente.",
+    en: {
+      label: "Tools / Practical Tips",
+      guidance: "Get straight to the tips, each with a quick demonstration and a clear benefit. Prioritize what can be applied immediately.",
+    },
+  },
+  {
+    value: "humor",
+    label: "Humor / Paródia / Satírico",
+    guidance: "Use timing cômico, exageros e quebras de expectativa, indicando pausas e reações. Mantenha o humor respeitoso.",
+    en: {
+      label: "Humor / Parody / Satire",
+      guidance: "Use comic timing, exaggeration and subverted expectations, marking pauses and reactions. Keep the humor respectful.",
+    },
+  },
+];
+
+const findStyle = (value: string) => VIDEO_STYLES.find((s) => s.value === value);
+
+export const styleLabel = (value: string) => findStyle(value)?.label ?? value;
+
+function localizedStyle(value: string, locale: PromptLocale): { label: string; guidance: string } | undefined {
+  const style = findStyle(value);
+  return style && (locale.id === "en" ? style.en : style);
+}
+
+// Placeholders disponíveis nos templates, cada um ligado a um campo de ScriptData
+export const TEMPLATE_VARIABLES: { key: keyof ScriptData; label: string }[] = [
+  { key: "topic", label: "Tópico" },
+  { key: "duration", label: "Duração" },
+  { key: "style", label: "Estilo" },
+  { key: "styleKeywords", label: "Palavras-chave do estilo" },
+  { key: "language", label: "Idioma" },
+  { key: "niche", label: "Nicho" },
+  { key: "subniche", label: "Sobrenicho" },
+  { key: "microniche", label: "Micronicho" },
+  { key: "nanoniche", label: "Nanonicho" },
+  { key: "youtubeLink", label: "Link de referência" },
+  { key: "qualified", label: "Público qualificado" },
+  { key: "audience", label: "Público-alvo" },
+  { key: "additionalInfo", label: "Informações adicionais" },
+];
+
+// Valores no idioma das instruções: o idioma do roteiro vira um nome legível em vez do código
+export function templateValues(scriptData: ScriptData): Record<keyof ScriptData, string> {
+  const locale = promptLocale(scriptData.language);
+  const fallback = locale.fallbackValues;
+  return {
+    topic: scriptData.topic,
+    duration: scriptData.duration,
+    style: localizedStyle(scriptData.style, locale)?.label ?? scriptData.style,
+    styleKeywords: scriptData.styleKeywords || fallback.none,
+    language: locale.languageName(getLanguage(scriptData.language)),
+    niche: scriptData.niche || fallback.notInformed,
+    subniche: scriptData.subniche || fallback.notInformed,
+    microniche: scriptData.microniche || fallback.notInformed,
+    nanoniche: scriptData.nanoniche || fallback.notInformed,
+    youtubeLink: scriptData.youtubeLink || fallback.noLink,
+    qualified: scriptData.qualified ? fallback.yes : fallback.no,
+    audience: scriptData.audience || fallback.general,
+    additionalInfo: scriptData.additionalInfo || fallback.none,
+  };
+}
+
+// Placeholders desconhecidos ficam no texto para o usuário perceber o erro na pré-visualização
+export function renderTemplate(body: string, scriptData: ScriptData): string {
+  const values: Record<string, string> = templateValues(scriptData);
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export const renderSpecifications = (scriptData: ScriptData) =>
+  renderTemplate(promptLocale(scriptData.language).specifications, scriptData);
+
+// Um template padrão por estilo e idioma de instrução; o português mantém os ids originais
+export function defaultTemplate(style: string, language = DEFAULT_LANGUAGE): PromptTemplate {
+  const locale = promptLocale(language);
+  const body = locale.defaultBody.replace("{{specifications}}", locale.specifications);
+  const prefix = locale.id === "pt" ? "default" : `default-${locale.id}`;
+  const suffix = locale.id === "pt" ? "" : " (instruções em inglês)";
+  const videoStyle = localizedStyle(style, locale);
+  if (!videoStyle) return { id: prefix, name: `Padrão${suffix}`, body, builtIn: true };
+  return {
+    id: `${prefix}-${style}`,
+    name: `Padrão — ${styleLabel(style)}${suffix}`,
+    body: `${body}\n\n${locale.styleGuidance(videoStyle.label, videoStyle.guidance)}`,
+    builtIn: true,
+  };
+}
+
+export function loadCustomTemplates(): PromptTemplate[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomTemplates(templates: PromptTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function loadStyleTemplates(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STYLE_TEMPLATES_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+// A escolha vale por estilo e idioma do roteiro; o português usa só o estilo como chave
+const selectionKey = (style: string, language: string) =>
+  !language || language === DEFAULT_LANGUAGE ? style : `${language}:${style}`;
+
+export function setStyleTemplate(style: string, language: string, templateId: string) {
+  const selection = loadStyleTemplates();
+  const key = selectionKey(style, language);
+  if (templateId === defaultTemplate(style, language).id) delete selection[key];
+  else selection[key] = templateId;
+  localStorage.setItem(STYLE_TEMPLATES_KEY, JSON.stringify(selection));
+}
+
+// Template escolhido para o estilo e idioma; sem escolha (ou se ele foi excluído) usa o padrão
+export function resolveTemplate(style: string, language = DEFAULT_LANGUAGE): PromptTemplate {
+  const id = loadStyleTemplates()[selectionKey(style, language)];
+  return loadCustomTemplates().find((t) => t.id === id) ?? defaultTemplate(style, language);
+}
+
+export function exportTemplates(templates: PromptTemplate[]): string {
+  const data: PromptTemplateExport = {
+    version: 1,
+    templates: templates.map(({ id, name, body }) => ({ id, name, body })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Mescla com os templates salvos, substituindo os de mesmo id; retorna quantos foram importados
+export function importTemplates(json: string): number {
+  const parsed = promptTemplateExportSchema.safeParse(JSON.parse(json));
+  if (!parsed.success) throw new Error("Arquivo de templates inválido");
+
+  const imported = parsed.data.templates.map((t) => ({
+    id: t.id.startsWith("default") ? `custom-${crypto.randomUUID().slice(0, 8)}` : t.id,
+    name: t.name,
+    body: t.body,
+  }));
+  const ids = new Set(imported.map((t) => t.id));
+  saveCustomTemplates([...loadCustomTemplates().filter((t) => !ids.has(t.id)), ...imported]);
+  return imported.length;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  AuthError,
+  ContentFilteredError,
+  ContextLengthError,
+  ProviderError,
+  RateLimitError,
+  ServerError,
+  describeError,
+  isRetryableError,
+  providerErrorFromResponse,
+} from "@/lib/provider-errors";
+
+const classify = (status: number, body: unknown, headers?: Record<string, string>) =>
+  providerErrorFromResponse("Teste", status, typeof body === "string" ? body : JSON.stringify(body), new Headers(headers));
+
+describe("providerErrorFromResponse", () => {
+  it("trata 401 e 403 como chave inválida", () => {
+    expect(classify(401, { error: { message: "Invalid token" } })).toBeInstanceOf(AuthError);
+    expect(classify(403, "forbidden")).toBeInstanceOf(AuthError);
+  });
+
+  it("reconhece chave inválida pela mensagem mesmo com status 400 (Gemini)", () => {
+    const error = classify(400, { error: { message: "API key not valid. Please pass a valid API key.", status: "INVALID_ARGUMENT" } });
+    expect(error).toBeInstanceOf(AuthError);
+  });
+
+  it("separa o 429 por minuto da cota esgotada", () => {
+    const perMinute = classify(429, {
+      error: { code: 429, message: "Resource has been exhausted (e.g. check quota).", status: "RESOURCE_EXHAUSTED" },
+    });
+    expect(perMinute).toBeInstanceOf(RateLimitError);
+    expect((perMinute as RateLimitError).quotaExceeded).toBe(false);
+
+    const exhausted = classify(429, {
+      error: { message: "You exceeded your current quota, please check your plan and billing details.", type: "insufficient_quota" },
+    });
+    expect((exhausted as RateLimitError).quotaExceeded).toBe(true);
+  });
+
+  it("trata 402 e quota_exceeded como cota esgotada antes da checagem de chave", () => {
+    expect((classify(402, "payment required") as RateLimitError).quotaExceeded).toBe(true);
+    // A ElevenLabs responde cota esgotada com 401 e o código em detail
+    const elevenLabs = classify(401, { detail: { status: "quota_exceeded", message: "This request exceeds your quota." } });
+    expect(elevenLabs).toBeInstanceOf(RateLimitError);
+    expect((elevenLabs as RateLimitError).quotaExceeded).toBe(true);
+  });
+
+  it("lê o Retry-After em segundos", () => {
+    const error = classify(429, { error: { message: "Rate limit reached" } }, { "retry-after": "12" });
+    expect((error as RateLimitError).retryAfterSeconds).toBe(12);
+  });
+
+  it("classifica limite de contexto e filtro de conteúdo pela mensagem", () => {
+    expect(classify(400, { error: { message: "This model's maximum context length is 8192 tokens" } })).toBeInstanceOf(
+      ContextLengthError
+    );
+    expect(classify(400, { error: { message: "Output blocked by content filter", type: "content_filter" } })).toBeInstanceOf(
+      ContentFilteredError
+    );
+  });
+
+  it("usa ServerError para 5xx e ProviderError genérico para o resto", () => {
+    expect(classify(503, "<html>unavailable</html>")).toBeInstanceOf(ServerError);
+    const other = classify(404, "not found");
+    expect(other.constructor).toBe(ProviderError);
+    expect(other.details).toBe("not found");
+  });
+});
+
+describe("isRetryableError", () => {
+  it("repete chave, limite, rede e 5xx, mas não conteúdo bloqueado nem 4xx genérico", () => {
+    expect(isRetryableError(classify(401, "unauthorized"))).toBe(true);
+    expect(isRetryableError(classify(429, "rate limit"))).toBe(true);
+    expect(isRetryableError(classify(500, "boom"))).toBe(true);
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableError(classify(400, { error: { message: "blocked by safety settings" } }))).toBe(false);
+    expect(isRetryableError(classify(404, "not found"))).toBe(false);
+    expect(isRetryableError(new Error("outro"))).toBe(false);
+  });
+});
+
+describe("describeError", () => {
+  it("diferencia cota esgotada de limite de requisições", () => {
+    expect(describeError(classify(402, "no credits")).title).toBe("Cota esgotada");
+    expect(describeError(classify(429, "rate limit", { "retry-after": "3" })).description).toContain("em 3s");
+  });
+});
@@ -0,0 +1,244 @@
+import { VaultLockedError } from "@/lib/key-vault";
+
+export type ProviderErrorKind =
+  | "auth"
+  | "rate-limit"
+  | "content-filtered"
+  | "context-length"
+  | "network"
+  | "malformed-response"
+  | "server"
+  | "unknown";
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind = "unknown";
+
+  constructor(
+    message: string,
+    public readonly providerName: string,
+    public readonly status?: number,
+    public readonly details?: string
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  // Falhas que podem não se repetir em outro provider: limite de uso, instabilidade ou chave inválida
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+export class AuthError extends ProviderError {
+  readonly kind = "auth";
+  get retryable() {
+    return true;
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  readonly kind = "rate-limit";
+
+  constructor(
+    message: string,
+    providerName: string,
+    status: number,
+    details?: string,
+    public readonly retryAfterSeconds?: number,
+    public readonly quotaExceeded = false
+  ) {
+    super(message, providerName, status, details);
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class ContentFilteredError extends ProviderError {
+  readonly kind = "content-filtered";
+  get retryable() {
+    return false;
+  }
+}
+
+export class ContextLengthError extends ProviderError {
+  readonly kind = "context-length";
+  get retryable() {
+    return false;
+  }
+}
+
+export class NetworkError extends ProviderError {
+  readonly kind = "network";
+  get retryable() {
+    return true;
+  }
+}
+
+export class MalformedResponseError extends ProviderError {
+  readonly kind = "malformed-response";
+  get retryable() {
+    return true;
+  }
+}
+
+export class ServerError extends ProviderError {
+  readonly kind = "server";
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.retryable;
+  // fetch lança TypeError em falhas de rede/CORS
+  return error instanceof TypeError;
+}
+
+interface ErrorFields {
+  message?: string;
+  type?: string;
+  code?: string | number;
+  status?: string;
+}
+
+interface ErrorBody {
+  error?: ErrorFields | string;
+  detail?: ErrorFields | string;
+  message?: string;
+}
+
+// OpenAI, Anthropic e Gemini usam variações de { error: { message, type|code|status } }; a ElevenLabs usa detail
+function readErrorBody(body: string): { message: string; code: string } {
+  try {
+    const parsed = JSON.parse(body) as ErrorBody | ErrorBody[];
+    const data = Array.isArray(parsed) ? parsed[0] : parsed;
+    const raw = data?.error ?? data?.detail;
+    const error = typeof raw === "string" ? { message: raw } : raw;
+    return {
+      message: error?.message || data?.message || body,
+      code: [error?.type, error?.code, error?.status].filter(Boolean).join(" "),
+    };
+  } catch {
+    return { message: body, code: "" };
+  }
+}
+
+function parseRetryAfter(headers?: Headers): number | undefined {
+  const value = headers?.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.round((date - Date.now()) / 1000));
+}
+
+// Classifica a resposta HTTP de erro de qualquer provider na hierarquia acima
+export function providerErrorFromResponse(
+  providerName: string,
+  status: number,
+  body: string,
+  headers?: Headers
+): ProviderError {
+  const { message, code } = readErrorBody(body);
+  const text = `${code} ${message}`.toLowerCase();
+  const details = message.slice(0, 300);
+  // Alguns serviços respondem cota esgotada com 401 ou 402; vem antes da checagem de chave inválida
+  const quotaExhausted = status === 402 || /quota_exceeded|insufficient_quota|not enough (api )?(tokens|credits)/.test(text);
+
+  if (!quotaExhausted && (status === 401 || status === 403 || /api[_ ]?key|invalid[_ ]authentication|permission/.test(text))) {
+    return new AuthError(`${providerName}: API key inválida ou sem permissão`, providerName, status, details);
+  }
+  if (quotaExhausted || status === 429 || /rate[_ ]limit|quota|resource_exhausted/.test(text)) {
+    // Só o código estruturado indica saldo esgotado; o 429 por minuto da Gemini também fala em "quota" na mensagem
+    const quotaExceeded = quotaExhausted || /billing/.test(code.toLowerCase());
+    return new RateLimitError(
+      `${providerName}: ${quotaExceeded ? "cota ou créditos esgotados" : "limite de requisições atingido"}`,
+      providerName,
+      status,
+      details,
+      parseRetryAfter(headers),
+      quotaExceeded
+    );
+  }
+  if (/context[_ ]length|context window|maximum context|too many tokens|prompt is too long|token limit/.test(text)) {
+    return new ContextLengthError(`${providerName}: limite de contexto do modelo excedido`, providerName, status, details);
+  }
+  if (/content[_ ]filter|content[_ ]policy|safety|blocked/.test(text)) {
+    return new ContentFilteredError(`${providerName}: conteúdo bloqueado pelo filtro de segurança`, providerName, status, details);
+  }
+  if (status >= 500) {
+    return new ServerError(`${providerName}: serviço indisponível (${status})`, providerName, status, details);
+  }
+  return new ProviderError(`${providerName}: erro ${status}`, providerName, status, details);
+}
+
+export interface ErrorDescription {
+  title: string;
+  description: string;
+}
+
+// Mensagens para o usuário: o que aconteceu e o que fazer
+export function describeError(error: unknown): ErrorDescription {
+  if (error instanceof VaultLockedError) {
+    return { title: "Cofre de chaves bloqueado", description: error.message };
+  }
+  if (!(error instanceof ProviderError)) {
+    return {
+      title: "Erro ao gerar roteiro",
+      description: error instanceof Error ? error.message : "Erro desconhecido. Tente novamente.",
+    };
+  }
+
+  const name = error.providerName;
+  const detail = error.details ? ` Detalhe: ${error.details}` : "";
+
+  if (error instanceof AuthError) {
+    return {
+      title: "API key inválida",
+      description: `O ${name} recusou a API key. Verifique se ela foi copiada corretamente e se tem acesso ao modelo escolhido.${detail}`,
+    };
+  }
+  if (error instanceof RateLimitError) {
+    if (error.quotaExceeded) {
+      return {
+        title: "Cota esgotada",
+        description: `Sua conta do ${name} está sem créditos ou cota. Verifique o faturamento ou use outro provider.${detail}`,
+      };
+    }
+    const wait = error.retryAfterSeconds !== undefined ? ` em ${error.retryAfterSeconds}s` : " em alguns instantes";
+    return {
+      title: "Limite de requisições atingido",
+      description: `O ${name} limitou as requisições. Tente novamente${wait} ou ative o fallback para outro provider.`,
+    };
+  }
+  if (error instanceof ContentFilteredError) {
+    return {
+      title: "Conteúdo bloqueado",
+      description: `O filtro de segurança do ${name} bloqueou o pedido ou a resposta. Reformule o tópico ou as informações adicionais.${detail}`,
+    };
+  }
+  if (error instanceof ContextLengthError) {
+    return {
+      title: "Limite de contexto excedido",
+      description: `O pedido ficou grande demais para o modelo do ${name}. Reduza o máximo de tokens no painel Avançado, encurte as informações adicionais ou escolha um modelo maior.`,
+    };
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: "Falha de conexão",
+      description: `Não foi possível contatar o ${name}. Verifique sua conexão; alguns providers também bloqueiam chamadas diretas do navegador (CORS).`,
+    };
+  }
+  if (error instanceof MalformedResponseError) {
+    return {
+      title: "Resposta inesperada",
+      description: `O ${name} retornou uma resposta em formato inesperado. Tente novamente ou troque de modelo.${detail}`,
+    };
+  }
+  if (error instanceof ServerError) {
+    return {
+      title: "Serviço indisponível",
+      description: `O ${name} está instável no momento (erro ${error.status}). Tente novamente em instantes ou use outro provider.`,
+    };
+  }
+  return { title: "Erro ao gerar roteiro", description: `${error.message}.${detail}` };
+}
@@ -0,0 +1,40 @@
+import { AIProvider } from "@/types/ai-providers";
+import { hasApiKey } from "@/lib/api-keys";
+
+const STORAGE_KEY = "provider_fallback";
+
+export interface FallbackSettings {
+  enabled: boolean;
+  order: string[];
+}
+
+export function loadFallbackSettings(): FallbackSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null") as FallbackSettings | null;
+    return saved ?? { enabled: false, order: [] };
+  } catch {
+    return { enabled: false, order: [] };
+  }
+}
+
+export function saveFallbackSettings(settings: FallbackSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Ordena os providers segundo a preferência salva; os ainda não ordenados vão para o fim
+export function orderProviders(providers: AIProvider[], order: string[]): AIProvider[] {
+  const rank = (p: AIProvider) => {
+    const index = order.indexOf(p.id);
+    return index === -1 ? order.length : index;
+  };
+  return [...providers].sort((a, b) => rank(a) - rank(b));
+}
+
+// O provider escolhido vem primeiro, seguido dos demais com API key configurada
+export function buildFallbackChain(primary: AIProvider, providers: AIProvider[], settings: FallbackSettings): AIProvider[] {
+  if (!settings.enabled) return [primary];
+  const rest = orderProviders(providers, settings.order).filter(
+    (p) => p.id !== primary.id && p.adapter && hasApiKey(p)
+  );
+  return [primary, ...rest];
+}
@@ -0,0 +1,69 @@
+import { AI_PROVIDERS, AIProvider, ProviderHttpRequest } from "@/types/ai-providers";
+import { httpRequest } from "@/lib/http-client";
+import { ELEVENLABS_PROVIDER, KLING_PROVIDER, LEONARDO_PROVIDER } from "@/lib/service-providers";
+
+// Modo proxy: as chamadas vão para o servidor em server/, que guarda as chaves; o navegador nunca as vê
+const SETTINGS_KEY = "proxy_settings";
+
+export interface ProxySettings {
+  enabled: boolean;
+  url: string;
+  // Token compartilhado com o servidor (PROXY_TOKEN); vazio quando o proxy não exige
+  token: string;
+  // keyName das chaves que o proxy informou ter na última verificação
+  keys: string[];
+}
+
+export const DEFAULT_PROXY_URL = "http://localhost:8787";
+
+// Providers de roteiro embutidos mais os serviços de imagem, vídeo e áudio; providers personalizados seguem diretos
+export const PROXY_PROVIDER_IDS = [
+  ...AI_PROVIDERS.map((p) => p.id),
+  LEONARDO_PROVIDER.id,
+  KLING_PROVIDER.id,
+  ELEVENLABS_PROVIDER.id,
+];
+
+export function loadProxySettings(): ProxySettings {
+  const defaults: ProxySettings = { enabled: false, url: DEFAULT_PROXY_URL, token: "", keys: [] };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}") };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveProxySettings(settings: ProxySettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function isProxied(provider: AIProvider): boolean {
+  return loadProxySettings().enabled && PROXY_PROVIDER_IDS.includes(provider.id);
+}
+
+export const proxyHasKey = (provider: AIProvider) => loadProxySettings().keys.includes(provider.keyName);
+
+const proxyHeaders = (token: string): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+// Mesmo formato dos adapters, para quem chama só trocar de onde vem a requisição
+export function buildProxyRequest(path: string, body: unknown): ProviderHttpRequest {
+  const { url, token } = loadProxySettings();
+  return {
+    url: `${url.replace(/\/+$/, "")}${path}`,
+    headers: { "Content-Type": "application/json", ...proxyHeaders(token) },
+    body,
+  };
+}
+
+// Confere se o proxy responde e devolve quais chaves ele tem configuradas
+export async function checkProxy(url: string, token: string): Promise<string[]> {
+  const response = await httpRequest(`${url.replace(/\/+$/, "")}/api/health`, {
+    headers: proxyHeaders(token),
+    timeoutMs: 10000,
+    retries: 0,
+  });
+  if (response.status === 401) throw new Error("O proxy recusou o token");
+  if (!response.ok) throw new Error(`O proxy respondeu com erro ${response.status}`);
+  const data = (await response.json()) as { keys?: string[] };
+  return Array.isArray(data.keys) ? data.keys : [];
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parseScript, previewPartialScript, renderScript } from "@/lib/script-document";
+import { Script } from "@/types/script";
+
+const segment = (narration: string, estimatedSeconds = 10) => ({ narration, visualCues: [], estimatedSeconds });
+
+const script: Script = {
+  title: 'O "café" perfeito',
+  hook: segment("Você já se perguntou\npor que o café amarga?"),
+  intro: segment("Hoje vamos descobrir."),
+  sections: [{ title: "Torra", ...segment("A torra muda tudo.", 60) }],
+  cta: segment("Inscreva-se."),
+  outro: segment("Até a próxima."),
+};
+
+describe("parseScript", () => {
+  it("aceita o JSON mesmo cercado por texto ou bloco de código", () => {
+    expect(parseScript(`Aqui está:\n\`\`\`json\n${JSON.stringify(script)}\n\`\`\``)).toEqual(script);
+  });
+
+  it("preenche campos opcionais com os padrões do schema", () => {
+    const minimal = {
+      hook: { narration: "a" },
+      intro: { narration: "b" },
+      sections: [{ title: "S", narration: "c" }],
+      cta: { narration: "d" },
+      outro: { narration: "e" },
+    };
+    const parsed = parseScript(JSON.stringify(minimal));
+    expect(parsed.title).toBe("");
+    expect(parsed.sections[0]).toEqual({ title: "S", narration: "c", visualCues: [], estimatedSeconds: 0 });
+  });
+
+  it("cai no parser de texto quando a resposta não é JSON válido", () => {
+    const parsed = parseScript("## Abertura\nOlá [Visual: xícara fumegante]\n\n## Desenvolvimento\nConteúdo");
+    expect(parsed.sections.map((s) => s.title)).toContain("Desenvolvimento");
+    expect(JSON.stringify(parsed)).toContain("xícara fumegante");
+  });
+
+  it("lê de volta o texto gerado por renderScript", () => {
+    const parsed = parseScript(renderScript(script));
+    expect(parsed.sections.map((s) => s.narration).join(" ")).toContain("A torra muda tudo.");
+  });
+});
+
+describe("previewPartialScript", () => {
+  const raw = JSON.stringify(script, null, 2);
+
+  it("mostra título, seções e narrações sem a sintaxe do JSON", () => {
+    expect(previewPartialScript(raw)).toBe(
+      [
+        '# O "café" perfeito',
+        "Você já se perguntou\npor que o café amarga?",
+        "Hoje vamos descobrir.",
+        "## Torra",
+        "A torra muda tudo.",
+        "Inscreva-se.",
+        "Até a próxima.",
+      ].join("\n\n")
+    );
+  });
+
+  it("nunca mostra chaves ou pontuação do JSON em qualquer ponto de corte", () => {
+    for (let cut = 0; cut <= raw.length; cut++) {
+      const preview = previewPartialScript(raw.slice(0, cut));
+      expect(preview).not.toMatch(/"(title|hook|narration|visualCues|estimatedSeconds)"|[{}]/);
+      // A prévia só cresce conforme o stream avança
+      expect(previewPartialScript(raw.slice(0, cut + 1)).length).toBeGreaterThanOrEqual(preview.length);
+    }
+  });
+
+  it("descarta um escape cortado no fim em vez de exibi-lo", () => {
+    expect(previewPartialScript('{"title": "Caf\\u00')).toBe("# Caf");
+    expect(previewPartialScript('{"title": "Linha\\')).toBe("# Linha");
+  });
+
+  it("exibe como veio uma resposta que não começa como JSON", () => {
+    expect(previewPartialScript("## Gancho\nOlá")).toBe("## Gancho\nOlá");
+  });
+});
@@ -0,0 +1,266 @@
+import { LongFormSection, OutlineSection, Script, ScriptSection, ScriptSegment, scriptSchema } from "@/types/script";
+
+const WORDS_PER_MINUTE = 150;
+const CUE_PATTERN = /\[([^\]]+)\]/g;
+
+const emptySegment = (): ScriptSegment => ({ narration: "", visualCues: [], estimatedSeconds: 0 });
+
+export function formatTimestamp(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.round(totalSeconds % 60);
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.split(":").map((p) => parseInt(p, 10) || 0);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function estimateSeconds(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.round((words / WORDS_PER_MINUTE) * 60);
+}
+
+// Separa indicações visuais entre colchetes do texto narrado
+export function splitCues(text: string): { narration: string; visualCues: string[] } {
+  const visualCues = Array.from(text.matchAll(CUE_PATTERN), (m) => m[1].replace(/^Visual:\s*/i, "").trim());
+  const narration = text
+    .replace(CUE_PATTERN, "")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { narration, visualCues };
+}
+
+function sectionFromText(title: string, text: string): ScriptSection {
+  const { narration, visualCues } = splitCues(text);
+  return { title, narration, visualCues, estimatedSeconds: estimateSeconds(narration) };
+}
+
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+(.+)$/,
+  /^\*\*(.+?)\*\*:?$/,
+  /^\d+[.)]\s+(.{4,80})$/,
+  /^(?:t[óo]pico|se[cç][aã]o|cap[íi]tulo|parte)[:-]\s+(.+)$/i,
+];
+
+function matchHeading(line: string): string | null {
+  for (const pattern of HEADING_PATTERNS) {
+    const match = line.match(pattern);
+    // remove também a marcação de tempo adicionada por renderScript
+    if (match) return match[1].replace(/\*\*/g, "").replace(/\s*\[\d{2,}:\d{2}\]$/, "").trim();
+  }
+  return null;
+}
+
+// Fallback para respostas que não vieram em JSON: usa os títulos do texto como seções
+export function scriptFromText(text: string): Script {
+  const sections: ScriptSection[] = [];
+  let title = "Roteiro";
+  let body: string[] = [];
+
+  const flush = () => {
+    const content = body.join("\n").trim();
+    if (content) sections.push(sectionFromText(title, content));
+    body = [];
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const heading = matchHeading(raw.trim());
+    if (heading) {
+      flush();
+      title = heading;
+    } else {
+      body.push(raw);
+    }
+  }
+  flush();
+
+  return {
+    title: "",
+    hook: emptySegment(),
+    intro: emptySegment(),
+    sections: sections.length ? sections : [sectionFromText("Roteiro", text)],
+    cta: emptySegment(),
+    outro: emptySegment(),
+  };
+}
+
+export function scriptFromLongForm(sections: LongFormSection[]): Script {
+  return {
+    title: "",
+    hook: emptySegment(),
+    intro: emptySegment(),
+    sections: sections.map((s) => ({
+      ...sectionFromText(s.title, s.content),
+      estimatedSeconds: Math.max(0, parseTimestamp(s.end) - parseTimestamp(s.start)),
+    })),
+    cta: emptySegment(),
+    outro: emptySegment(),
+  };
+}
+
+// Valida a resposta JSON do provider; se não for válida, cai no parser de texto
+export function parseScript(raw: string): Script {
+  const match = raw.match(/\{[\s\S]*\}/);
+  try {
+    const parsed = scriptSchema.safeParse(JSON.parse(match?.[0] ?? ""));
+    if (parsed.success) return parsed.data;
+  } catch {
+    // resposta não é JSON
+  }
+  return scriptFromText(raw);
+}
+
+// Chaves do JSON cujo texto aparece na prévia; o primeiro title é o do roteiro, os demais são das seções
+const PREVIEW_KEYS = ["title", "narration"];
+
+// Lê uma string JSON a partir das aspas em start; aceita a string ainda incompleta no fim do stream
+function readJsonString(raw: string, start: number): { value: string; end: number; complete: boolean } {
+  let i = start + 1;
+  while (i < raw.length && raw[i] !== '"') i += raw[i] === "\\" ? 2 : 1;
+  const complete = i < raw.length;
+  let body = raw.slice(start + 1, Math.min(i, raw.length));
+  // Um escape cortado no meio (\ ou \u00) fica para o próximo pedaço
+  if (!complete) body = body.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+  let value: string;
+  try {
+    value = JSON.parse(`"${body}"`);
+  } catch {
+    value = body;
+  }
+  return { value, end: i + 1, complete };
+}
+
+/**
+ * Texto legível enquanto a resposta JSON ainda chega: título, títulos de seção e narrações, sem a sintaxe.
+ * Resposta que não começa como JSON (fallback em texto) aparece como veio.
+ */
+export function previewPartialScript(raw: string): string {
+  const head = raw.trimStart();
+  if (head && !head.startsWith("{") && !head.startsWith("```")) return raw;
+
+  const blocks: string[] = [];
+  let key: string | null = null;
+  let titles = 0;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') {
+      const { value, end, complete } = readJsonString(raw, i);
+      const isKey = complete && /^\s*:/.test(raw.slice(end));
+      if (isKey) {
+        key = value;
+      } else if (key && PREVIEW_KEYS.includes(key)) {
+        if (key === "title") titles++;
+        if (value.trim()) blocks.push(key === "title" ? `${titles > 1 ? "##" : "#"} ${value.trim()}` : value.trim());
+        key = null;
+      }
+      i = end - 1;
+    } else if (char === "," || char === "{" || char === "[") {
+      key = null;
+    }
+  }
+  return blocks.join("\n\n");
+}
+
+// Trechos fixos pelo nome; seções pelo índice em script.sections
+export type SegmentKey = "hook" | "intro" | "cta" | "outro" | number;
+
+export interface SegmentEntry {
+  key: SegmentKey;
+  title: string;
+  segment: ScriptSegment;
+}
+
+// Todos os trechos na ordem do vídeo, inclusive os vazios (usado no editor)
+export function allSegments(script: Script): SegmentEntry[] {
+  return [
+    { key: "hook", title: "Hook", segment: script.hook },
+    { key: "intro", title: "Introdução", segment: script.intro },
+    ...script.sections.map((s, i) => ({ key: i, title: s.title, segment: s })),
+    { key: "cta", title: "Call-to-action", segment: script.cta },
+    { key: "outro", title: "Encerramento", segment: script.outro },
+  ];
+}
+
+export function scriptSegments(script: Script): SegmentEntry[] {
+  return allSegments(script).filter(({ segment }) => segment.narration.trim() || segment.visualCues.length);
+}
+
+export function getSegment(script: Script, key: SegmentKey): ScriptSegment {
+  return typeof key === "number" ? script.sections[key] : script[key];
+}
+
+export function updateSegment(script: Script, key: SegmentKey, patch: Partial<ScriptSection>): Script {
+  if (typeof key === "number") {
+    return { ...script, sections: script.sections.map((s, i) => (i === key ? { ...s, ...patch } : s)) };
+  }
+  const { title: _title, ...segmentPatch } = patch;
+  return { ...script, [key]: { ...script[key], ...segmentPatch } };
+}
+
+// Estrutura com marcações de tempo contínuas, no formato usado pelo modo longo
+export function scriptOutline(script: Script): OutlineSection[] {
+  let elapsed = 0;
+  return scriptSegments(script).map(({ title, segment }) => {
+    const start = elapsed;
+    elapsed += segment.estimatedSeconds;
+    return {
+      title,
+      start: formatTimestamp(start),
+      end: formatTimestamp(elapsed),
+      summary: segment.narration.trim().split(/(?<=[.!?])\s/)[0].slice(0, 160),
+    };
+  });
+}
+
+export function renderScript(script: Script): string {
+  let elapsed = 0;
+  const blocks = scriptSegments(script).map(({ title, segment }) => {
+    const lines = [`## ${title} [${formatTimestamp(elapsed)}]`, "", segment.narration.trim()];
+    segment.visualCues.forEach((cue) => lines.push(`[Visual: ${cue}]`));
+    elapsed += segment.estimatedSeconds;
+    return lines.join("\n");
+  });
+  if (script.title) blocks.unshift(`# ${script.title}`);
+  return blocks.join("\n\n");
+}
+
+// Apenas o texto falado, sem títulos nem indicações visuais (usado na narração em áudio)
+export function narrationText(script: Script): string {
+  return scriptSegments(script)
+    .map(({ segment }) => segment.narration.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function scriptDuration(script: Script): number {
+  return scriptSegments(script).reduce((total, { segment }) => total + segment.estimatedSeconds, 0);
+}
+
+// Identificador curto do conteúdo (FNV-1a); muda sempre que o roteiro é regenerado ou editado
+export function scriptFingerprint(script: Script): string {
+  const text = JSON.stringify(script);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Mantém os tempos do original na tradução, para que as marcações de tempo coincidam entre os idiomas
+export function withSourceTiming(source: Script, translated: Script): Script {
+  const timed = <T extends ScriptSegment>(segment: T, original: ScriptSegment): T => ({
+    ...segment,
+    estimatedSeconds: original.estimatedSeconds,
+  });
+  return {
+    ...translated,
+    hook: timed(translated.hook, source.hook),
+    intro: timed(translated.intro, source.intro),
+    sections: translated.sections.map((s, i) => timed(s, source.sections[i])),
+    cta: timed(translated.cta, source.cta),
+    outro: timed(translated.outro, source.outro),
+  };
+}
@@ -0,0 +1,96 @@
+import { ScriptData } from "@/types/ai-providers";
+import { Script } from "@/types/script";
+
+// Versões salvas antes dos projetos, migradas para o primeiro projeto criado
+const LEGACY_STORAGE_KEY = "script_versions";
+const MAX_VERSIONS = 200;
+
+export const MAIN_BRANCH = "Principal";
+
+export type VersionOrigin = "generation" | "edit" | "restore" | "branch";
+
+export interface ScriptVersion {
+  id: string;
+  timestamp: number;
+  origin: VersionOrigin;
+  // Versão de onde esta saiu; as ramificações formam uma árvore a partir dela
+  parentId?: string;
+  branch: string;
+  script: Script;
+  scriptData: ScriptData;
+  provider: string;
+  model: string;
+  note?: string;
+}
+
+export const ORIGIN_LABEL: Record<VersionOrigin, string> = {
+  generation: "Geração",
+  edit: "Edição",
+  restore: "Restauração",
+  branch: "Ramificação",
+};
+
+export type NewScriptVersion = Omit<ScriptVersion, "id" | "timestamp">;
+
+const listeners = new Set<() => void>();
+
+// Versões do projeto aberto; o projeto é quem as persiste no IndexedDB
+let versions: ScriptVersion[] = [];
+
+function writeVersions(next: ScriptVersion[]) {
+  versions = next.slice(-MAX_VERSIONS);
+  listeners.forEach((listener) => listener());
+}
+
+export function getVersions(): ScriptVersion[] {
+  return versions;
+}
+
+export function subscribeVersions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function recordVersion(version: NewScriptVersion): ScriptVersion {
+  const saved: ScriptVersion = { ...version, id: crypto.randomUUID(), timestamp: Date.now() };
+  writeVersions([...versions, saved]);
+  return saved;
+}
+
+export function removeVersion(id: string) {
+  writeVersions(versions.filter((v) => v.id !== id));
+}
+
+export function clearVersions() {
+  writeVersions([]);
+}
+
+export function setVersions(list: ScriptVersion[]) {
+  writeVersions(list);
+}
+
+export function takeLegacyVersions(): ScriptVersion[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  } finally {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+// Próximo nome livre para uma ramificação ("Ramo 2", "Ramo 3"...)
+export function nextBranchName(): string {
+  const names = new Set(versions.map((v) => v.branch));
+  let n = 2;
+  while (names.has(`Ramo ${n}`)) n++;
+  return `Ramo ${n}`;
+}
+
+export function describeVersion(version: ScriptVersion): string {
+  const date = new Date(version.timestamp).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+  return `${ORIGIN_LABEL[version.origin]} de ${date} (${version.branch})`;
+}
@@ -0,0 +1,62 @@
+import { AIProvider } from "@/types/ai-providers";
+
+// Serviços fora da geração de roteiro; usam o mesmo formato de provider para guardar e configurar a chave
+
+export const YOUTUBE_PROVIDER: AIProvider = {
+  id: "youtube",
+  name: "YouTube Data API",
+  icon: "▶️",
+  endpoint: "https://www.googleapis.com/youtube/v3",
+  keyName: "youtube_api_key",
+  getApiKeyUrl: "https://console.cloud.google.com/apis/credentials",
+};
+
+export const LEONARDO_PROVIDER: AIProvider = {
+  id: "leonardo",
+  name: "Leonardo AI",
+  icon: "🎨",
+  endpoint: "https://cloud.leonardo.ai/api/rest/v1",
+  keyName: "leonardo_api_key",
+  getApiKeyUrl: "https://cloud.leonardo.ai/api-access",
+};
+
+export const KLING_PROVIDER: AIProvider = {
+  id: "kling",
+  name: "Kling AI",
+  icon: "🖼️",
+  endpoint: "https://api-singapore.klingai.com",
+  // Par access_key:secret_key; a secret só assina o JWT de cada chamada
+  keyName: "kling_api_key",
+  getApiKeyUrl: "https://app.klingai.com/global/dev/api-key",
+  keyFormat: {
+    placeholder: "access_key:secret_key",
+    hint: "A Kling usa um par de chaves: cole a Access Key e a Secret Key separadas por dois-pontos.",
+    pattern: /^[^:\s]+:\S+$/,
+  },
+};
+
+export const MIDJOURNEY_PROVIDER: AIProvider = {
+  id: "midjourney",
+  name: "Midjourney",
+  icon: "🖌️",
+  endpoint: "",
+  keyName: "midjourney_api_key",
+  getApiKeyUrl: "https://www.midjourney.com/",
+};
+
+export const ELEVENLABS_PROVIDER: AIProvider = {
+  id: "elevenlabs",
+  name: "ElevenLabs",
+  icon: "🎙️",
+  endpoint: "https://api.elevenlabs.io/v1",
+  keyName: "elevenlabs_api_key",
+  getApiKeyUrl: "https://elevenlabs.io/app/settings/api-keys",
+};
+
+export const SERVICE_PROVIDERS = [
+  YOUTUBE_PROVIDER,
+  LEONARDO_PROVIDER,
+  KLING_PROVIDER,
+  MIDJOURNEY_PROVIDER,
+  ELEVENLABS_PROVIDER,
+];
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { readServerSentEvents } from "@/lib/sse";
+
+// Corpo entregue exatamente nos pedaços informados, para simular cortes no meio de linhas e caracteres
+function streamOf(chunks: (string | Uint8Array)[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+async function collect(response: Response, signal?: AbortSignal): Promise<string[]> {
+  const events: string[] = [];
+  await readServerSentEvents(response, (data) => events.push(data), signal);
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("junta linhas cortadas entre pedaços", async () => {
+    const events = await collect(streamOf(['data: {"a":', "1}\n\ndata: ", '{"b":2}\n\n']));
+    expect(events).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it("aceita CRLF e ignora comentários, eventos e [DONE]", async () => {
+    const events = await collect(streamOf([": ping\r\nevent: message\r\ndata: um\r\n\r\n", "data: [DONE]\r\n\r\n"]));
+    expect(events).toEqual(["um"]);
+  });
+
+  it("não corrompe caracteres multibyte divididos entre pedaços", async () => {
+    const bytes = new TextEncoder().encode("data: ação\n\n");
+    // "ç" ocupa dois bytes; o corte cai entre eles
+    const cut = bytes.indexOf(0xc3) + 1;
+    const events = await collect(streamOf([bytes.slice(0, cut), bytes.slice(cut)]));
+    expect(events).toEqual(["ação"]);
+  });
+
+  it("entrega a última linha mesmo sem quebra no fim", async () => {
+    expect(await collect(streamOf(["data: a\n", "data: b"]))).toEqual(["a", "b"]);
+  });
+
+  it("interrompe a leitura e lança AbortError quando o signal é abortado", async () => {
+    const controller = new AbortController();
+    let pull = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(stream) {
+        pull++;
+        stream.enqueue(new TextEncoder().encode(`data: ${pull}\n\n`));
+        if (pull === 2) controller.abort();
+      },
+    });
+    const events: string[] = [];
+
+    await expect(
+      readServerSentEvents(new Response(body), (data) => events.push(data), controller.signal)
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(events.length).toBeLessThanOrEqual(2);
+  });
+
+  it("recusa resposta sem corpo", async () => {
+    await expect(collect(new Response(null))).rejects.toThrow("sem corpo");
+  });
+});
@@ -0,0 +1,48 @@
+// Lê um corpo text/event-stream e entrega o payload de cada linha "data:".
+// Com o signal abortado, cancela a leitura e lança o motivo (AbortError), para o texto parcial não passar por completo
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!response.body) throw new Error("Resposta sem corpo para streaming");
+
+  const reader = response.body.getReader();
+  const onAbort = () => reader.cancel(signal?.reason).catch(() => undefined);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    await readLines(reader, onData, signal);
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function readLines(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (data && data !== "[DONE]") onData(data);
+  };
+
+  while (true) {
+    signal?.throwIfAborted();
+    const { done, value } = await reader.read();
+    // O cancelamento encerra a leitura como se o stream tivesse terminado
+    signal?.throwIfAborted();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(flushLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) flushLine(buffer);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DiffPart, diffLines, diffTokens, diffWords } from "@/lib/text-diff";
+
+// Reconstrói os dois lados a partir do diff: o antigo ignora inserções, o novo ignora remoções
+const sides = (parts: DiffPart[]) => ({
+  before: parts.filter((p) => p.type !== "insert").map((p) => p.value).join(""),
+  after: parts.filter((p) => p.type !== "delete").map((p) => p.value).join(""),
+});
+
+describe("diffTokens", () => {
+  it("devolve um único trecho igual para listas idênticas", () => {
+    expect(diffTokens(["a", "b"], ["a", "b"])).toEqual([{ type: "equal", value: "ab" }]);
+    expect(diffTokens([], [])).toEqual([]);
+  });
+
+  it("trata listas vazias como inserção ou remoção completa", () => {
+    expect(diffTokens([], ["a", "b"])).toEqual([{ type: "insert", value: "ab" }]);
+    expect(diffTokens(["a", "b"], [])).toEqual([{ type: "delete", value: "ab" }]);
+  });
+
+  it("junta partes vizinhas do mesmo tipo", () => {
+    expect(diffTokens(["a", "x", "y", "b"], ["a", "b"])).toEqual([
+      { type: "equal", value: "a" },
+      { type: "delete", value: "xy" },
+      { type: "equal", value: "b" },
+    ]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marca só a palavra trocada e preserva os espaços", () => {
+    expect(diffWords("o gato preto", "o cão preto")).toEqual([
+      { type: "equal", value: "o " },
+      { type: "delete", value: "gato" },
+      { type: "insert", value: "cão" },
+      { type: "equal", value: " preto" },
+    ]);
+  });
+
+  it("reconstrói exatamente os dois textos", () => {
+    const before = "Hoje vamos  falar de café\ne de chá.";
+    const after = "Hoje vamos falar de café gelado\ne de chá verde.";
+    expect(sides(diffWords(before, after))).toEqual({ before, after });
+  });
+});
+
+describe("diffLines", () => {
+  it("compara linha a linha mantendo as quebras", () => {
+    expect(diffLines("um\ndois\ntrês", "um\nDOIS\ntrês")).toEqual([
+      { type: "equal", value: "um\n" },
+      { type: "delete", value: "dois\n" },
+      { type: "insert", value: "DOIS\n" },
+      { type: "equal", value: "três" },
+    ]);
+  });
+
+  it("detecta uma linha nova no fim", () => {
+    expect(diffLines("a\n", "a\nb\n")).toEqual([
+      { type: "equal", value: "a\n" },
+      { type: "insert", value: "b\n" },
+    ]);
+  });
+});
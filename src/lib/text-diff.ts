@@ -0,0 +1,61 @@
+export type DiffType = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+function pushPart(parts: DiffPart[], type: DiffType, value: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.value += value;
+  else parts.push({ type, value });
+}
+
+// LCS entre listas de tokens; prefixo e sufixo comuns ficam fora da tabela para poupar memória
+export function diffTokens(a: string[], b: string[]): DiffPart[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = midA[i] === midB[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (prefix) pushPart(parts, "equal", a.slice(0, prefix).join(""));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, "equal", midA[i++]);
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pushPart(parts, "delete", midA[i++]);
+    } else {
+      pushPart(parts, "insert", midB[j++]);
+    }
+  }
+  while (i < n) pushPart(parts, "delete", midA[i++]);
+  while (j < m) pushPart(parts, "insert", midB[j++]);
+  if (suffix) pushPart(parts, "equal", a.slice(a.length - suffix).join(""));
+  return parts;
+}
+
+// Palavras e espaços viram tokens separados, para o diff preservar a formatação original
+export const diffWords = (a: string, b: string) => diffTokens(a.split(/(\s+)/), b.split(/(\s+)/));
+
+export const diffLines = (a: string, b: string) => diffTokens(a.split(/(?<=\n)/), b.split(/(?<=\n)/));
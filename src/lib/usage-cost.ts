@@ -0,0 +1,51 @@
+import { ModelPricing, TokenUsage } from "@/types/ai-providers";
+
+// Valores de referência dos planos pagos; o custo real depende do plano de cada conta
+export const ELEVENLABS_USD_PER_1K_CHARACTERS = 0.3;
+export const LEONARDO_USD_PER_CREDIT = 0.002;
+export const KLING_IMAGE_USD = 0.0035;
+const KLING_VIDEO_USD_PER_SECOND = { std: 0.028, pro: 0.049 };
+
+const CHARS_PER_TOKEN = 4;
+const WORDS_PER_MINUTE = 150;
+const TOKENS_PER_WORD = 1.5;
+// Estrutura JSON, títulos e indicações visuais além da narração
+const SCRIPT_OVERHEAD = 1.3;
+
+// Aproximação sem tokenizador: cerca de 4 caracteres por token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Usa o limite superior da faixa de duração ("5-10" → 10, "60+" → 60)
+export function durationMinutes(duration: string): number {
+  const numbers = duration.match(/\d+/g)?.map(Number) ?? [];
+  return numbers.length ? Math.max(...numbers) : 0;
+}
+
+export function estimateScriptTokens(duration: string): number {
+  return Math.ceil(durationMinutes(duration) * WORDS_PER_MINUTE * TOKENS_PER_WORD * SCRIPT_OVERHEAD);
+}
+
+export function tokenCost(pricing: ModelPricing | undefined, usage: TokenUsage): number {
+  if (!pricing) return 0;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+export const characterCost = (characters: number) => (characters / 1000) * ELEVENLABS_USD_PER_1K_CHARACTERS;
+
+export const creditCost = (credits: number) => credits * LEONARDO_USD_PER_CREDIT;
+
+export const klingVideoCost = (seconds: number, mode: keyof typeof KLING_VIDEO_USD_PER_SECOND) =>
+  seconds * KLING_VIDEO_USD_PER_SECOND[mode];
+
+export function formatUsd(value: number): string {
+  return value.toLocaleString("pt-BR", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 0.01 ? 4 : 2,
+  });
+}
+
+export const formatCount = (value: number) => value.toLocaleString("pt-BR");
@@ -0,0 +1,106 @@
+const STORAGE_KEY = "usage_ledger";
+const MAX_ENTRIES = 1000;
+
+export type UsageService = "script" | "image" | "audio" | "video";
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  sessionId: string;
+  project: string;
+  service: UsageService;
+  provider: string;
+  model?: string;
+  // Slot da chave usada no cofre; ausente em registros anteriores às chaves múltiplas
+  keySlot?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  characters?: number;
+  credits?: number;
+  // Duração dos clipes de vídeo
+  seconds?: number;
+  // true quando o provider não informou o consumo e os valores foram estimados
+  estimated?: boolean;
+  costUsd: number;
+}
+
+export type NewUsageEntry = Omit<UsageEntry, "id" | "timestamp" | "sessionId" | "project">;
+
+export interface UsageSummary {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number;
+  credits: number;
+  seconds: number;
+  calls: number;
+}
+
+// Cada carregamento da página é uma sessão
+export const SESSION_ID = crypto.randomUUID();
+
+let activeProject = "";
+const listeners = new Set<() => void>();
+
+function readEntries(): UsageEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+let entries = readEntries();
+
+function writeEntries(next: UsageEntry[]) {
+  entries = next.slice(-MAX_ENTRIES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  listeners.forEach((listener) => listener());
+}
+
+export function getUsageEntries(): UsageEntry[] {
+  return entries;
+}
+
+export function subscribeUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// O consumo registrado a partir daqui é atribuído a este projeto
+export function setUsageProject(project: string) {
+  activeProject = project;
+}
+
+export function getUsageProject(): string {
+  return activeProject;
+}
+
+export function recordUsage(entry: NewUsageEntry) {
+  writeEntries([
+    ...entries,
+    { ...entry, id: crypto.randomUUID(), timestamp: Date.now(), sessionId: SESSION_ID, project: activeProject },
+  ]);
+}
+
+export function clearUsage() {
+  writeEntries([]);
+}
+
+export function summarizeUsage(list: UsageEntry[]): UsageSummary {
+  return list.reduce<UsageSummary>(
+    (total, e) => ({
+      costUsd: total.costUsd + e.costUsd,
+      promptTokens: total.promptTokens + (e.promptTokens ?? 0),
+      completionTokens: total.completionTokens + (e.completionTokens ?? 0),
+      characters: total.characters + (e.characters ?? 0),
+      credits: total.credits + (e.credits ?? 0),
+      seconds: total.seconds + (e.seconds ?? 0),
+      calls: total.calls + 1,
+    }),
+    { costUsd: 0, promptTokens: 0, completionTokens: 0, characters: 0, credits: 0, seconds: 0, calls: 0 }
+  );
+}
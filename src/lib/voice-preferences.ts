@@ -0,0 +1,25 @@
+import { getLanguage } from "@/lib/languages";
+
+const VOICE_BY_LANGUAGE_KEY = "elevenlabs_voice_by_language";
+
+// Voz escolhida para cada idioma de roteiro, reaplicada quando o áudio muda de versão
+export function loadVoiceByLanguage(): Record<string, string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOICE_BY_LANGUAGE_KEY) || "{}");
+    return saved && typeof saved === "object" && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+export function voiceForLanguage(language: string): string | undefined {
+  return loadVoiceByLanguage()[getLanguage(language).code];
+}
+
+export function saveVoiceForLanguage(language: string, voiceId: string) {
+  const voices = { ...loadVoiceByLanguage(), [getLanguage(language).code]: voiceId };
+  localStorage.setItem(VOICE_BY_LANGUAGE_KEY, JSON.stringify(voices));
+}
+
+// Código ISO 639-1 usado pela ElevenLabs ("pt-br" vira "pt")
+export const speechLanguageCode = (language: string) => getLanguage(language).code.split("-")[0];
@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { addHttpHooks, consoleHttpLogger } from './lib/http-client'
+
+if (import.meta.env.DEV) addHttpHooks(consoleHttpLogger);
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,8 +1,8 @@
-import { ScriptGenerator } from "@/components/ScriptGenerator";
+import { Navigate } from "react-router-dom";
 
 const Index = () => {
   console.log("Index component is rendering");
-  return <ScriptGenerator />;
+  return <Navigate to="/projects" replace />;
 };
 
 export default Index;
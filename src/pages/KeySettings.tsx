@@ -0,0 +1,455 @@
+import { useEffect, useReducer, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, CheckCircle2, ExternalLink, Loader2, Lock, Pencil, Plus, Trash2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import { useProviders } from "@/hooks/use-providers";
+import { useUsageEntries } from "@/hooks/use-usage-ledger";
+import { AIProvider } from "@/types/ai-providers";
+import {
+  ApiKeyEntry,
+  PRIMARY_KEY_ID,
+  addApiKey,
+  apiKeySlot,
+  hasStoredApiKey,
+  isKeyExhausted,
+  listApiKeys,
+  loadKeyRotation,
+  maskApiKey,
+  readApiKey,
+  removeApiKey,
+  renameApiKey,
+  saveApiKey,
+  saveKeyRotation,
+} from "@/lib/api-keys";
+import { KeyCheckResult, canValidateKey, keyFormatError, loadKeyChecks, validateApiKey } from "@/lib/key-validation";
+import { requestUnlock } from "@/lib/key-vault";
+import { isProxied } from "@/lib/proxy-mode";
+import { UsageEntry, UsageSummary, summarizeUsage } from "@/lib/usage-ledger";
+import { formatCount, formatUsd } from "@/lib/usage-cost";
+import {
+  ELEVENLABS_PROVIDER,
+  KLING_PROVIDER,
+  LEONARDO_PROVIDER,
+  MIDJOURNEY_PROVIDER,
+  YOUTUBE_PROVIDER,
+} from "@/lib/service-providers";
+import { KeyVaultButton } from "@/components/vault/KeyVaultButton";
+import { ProxySettingsCard } from "@/components/proxy/ProxySettingsCard";
+
+interface DeleteTarget {
+  provider: AIProvider;
+  entry: ApiKeyEntry;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+
+interface KeyRowProps {
+  provider: AIProvider;
+  entry: ApiKeyEntry;
+  check?: KeyCheckResult;
+  usage: UsageSummary;
+  // Muda a cada chave salva, apagada ou testada, para a linha reler a chave mascarada
+  revision: number;
+  onChanged: () => void;
+  onDelete: (target: DeleteTarget) => void;
+}
+
+const KeyRow = ({ provider, entry, check, usage, revision, onChanged, onDelete }: KeyRowProps) => {
+  const { toast } = useToast();
+  const { status } = useKeyVault();
+  const primary = entry.id === PRIMARY_KEY_ID;
+  const configured = hasStoredApiKey(provider, entry.id);
+  const exhausted = isKeyExhausted(provider, entry.id);
+  const [masked, setMasked] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [label, setLabel] = useState(entry.label);
+  const [value, setValue] = useState("");
+  const [testing, setTesting] = useState(false);
+
+  // Com o cofre bloqueado a chave não é lida, para não pedir a senha só por abrir a página
+  useEffect(() => {
+    if (status === "locked" || !configured) {
+      setMasked(null);
+      return;
+    }
+    let active = true;
+    readApiKey(provider, entry.id).then(
+      (key) => active && setMasked(maskApiKey(key)),
+      () => active && setMasked(null)
+    );
+    return () => {
+      active = false;
+    };
+  }, [provider, entry.id, configured, status, revision]);
+
+  const save = async () => {
+    const formatError = value.trim() ? keyFormatError(provider, value) : undefined;
+    if (formatError) {
+      toast({ title: "API key não salva", description: `${provider.name}: ${formatError}`, variant: "destructive" });
+      return;
+    }
+    if (label.trim() !== entry.label) renameApiKey(provider, entry.id, label);
+    try {
+      if (value.trim()) await saveApiKey(provider, value, entry.id);
+      setEditing(false);
+      setValue("");
+      onChanged();
+      toast({ title: "API key salva", description: `${provider.name} · ${label.trim() || entry.label}` });
+    } catch {
+      toast({ title: "API key não salva", description: "Desbloqueie o cofre de chaves para guardar a chave.", variant: "destructive" });
+    }
+  };
+
+  const test = async () => {
+    setTesting(true);
+    try {
+      const result = await validateApiKey(provider, await readApiKey(provider, entry.id), apiKeySlot(provider, entry.id));
+      toast(
+        result.ok
+          ? { title: "Chave válida", description: `${provider.name} · ${entry.label}` }
+          : { title: "Chave recusada", description: `${provider.name}: ${result.message}`, variant: "destructive" }
+      );
+      onChanged();
+    } catch {
+      // Pedido de senha cancelado
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <li className="py-2 pl-9 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{entry.label}</p>
+          <p className="text-xs text-muted-foreground font-mono">
+            {masked ?? (configured ? "••••••••" : provider.apiKeyOptional ? "chave opcional" : "sem chave")}
+          </p>
+        </div>
+        {usage.calls > 0 && (
+          <span className="text-xs text-muted-foreground" title="Consumo registrado com esta chave">
+            {formatCount(usage.calls)} chamada(s) · {formatUsd(usage.costUsd)}
+          </span>
+        )}
+        {exhausted ? (
+          <Badge variant="destructive">Cota esgotada</Badge>
+        ) : (
+          <Badge variant={configured ? "default" : "outline"}>
+            {configured ? "Configurada" : provider.apiKeyOptional ? "Opcional" : "Não configurada"}
+          </Badge>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={testing || !canValidateKey(provider) || !(configured || (primary && provider.apiKeyOptional))}
+          title={canValidateKey(provider) ? "Testar a chave com uma chamada barata" : "Sem integração para testar"}
+          onClick={test}
+        >
+          {testing && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          Testar
+        </Button>
+        <Button variant="ghost" size="sm" title="Alterar" onClick={() => setEditing((e) => !e)}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Excluir"
+          disabled={primary && !configured}
+          onClick={() => onDelete({ provider, entry })}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {check && (
+        <p className={`text-xs flex items-center gap-1 ${check.ok ? "text-muted-foreground" : "text-destructive"}`}>
+          {check.ok ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+          {check.ok ? "Validada" : `Falhou (${check.message})`} em {formatDate(check.checkedAt)}
+        </p>
+      )}
+
+      {editing && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <Input className="max-w-[10rem]" aria-label="Rótulo" value={label} onChange={(e) => setLabel(e.target.value)} />
+          <Input
+            type="password"
+            autoFocus
+            placeholder={
+              provider.keyFormat?.placeholder ??
+              (configured ? "Nova API key (vazio mantém a atual)" : `API key do ${provider.name}`)
+            }
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={!value.trim() && label.trim() === entry.label}>
+            Salvar
+          </Button>
+        </form>
+      )}
+    </li>
+  );
+};
+
+interface ProviderKeysProps {
+  provider: AIProvider;
+  checks: Record<string, KeyCheckResult>;
+  usage: UsageEntry[];
+  revision: number;
+  onChanged: () => void;
+  onDelete: (target: DeleteTarget) => void;
+}
+
+// Todas as chaves de um provider, com a rotação automática quando há mais de uma
+const ProviderKeys = ({ provider, checks, usage, revision, onChanged, onDelete }: ProviderKeysProps) => {
+  const { toast } = useToast();
+  const entries = listApiKeys(provider);
+  const [rotation, setRotation] = useState(() => Boolean(loadKeyRotation()[provider.id]));
+  const [adding, setAdding] = useState(false);
+  const [label, setLabel] = useState("");
+  const [value, setValue] = useState("");
+
+  const changeRotation = (enabled: boolean) => {
+    setRotation(enabled);
+    saveKeyRotation(provider, enabled);
+  };
+
+  const add = async () => {
+    if (!value.trim()) return;
+    const formatError = keyFormatError(provider, value);
+    if (formatError) {
+      toast({ title: "API key não salva", description: `${provider.name}: ${formatError}`, variant: "destructive" });
+      return;
+    }
+    try {
+      const entry = await addApiKey(provider, label || `Chave ${entries.length + 1}`, value);
+      setAdding(false);
+      setLabel("");
+      setValue("");
+      onChanged();
+      toast({ title: "API key adicionada", description: `${provider.name} · ${entry.label}` });
+    } catch {
+      toast({ title: "API key não salva", description: "Desbloqueie o cofre de chaves para guardar a chave.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <li className="py-3 space-y-1">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-lg">{provider.icon}</span>
+        <p className="font-medium flex-1 min-w-0 truncate">{provider.name}</p>
+        {isProxied(provider) && (
+          <Badge variant="secondary" title="As chamadas usam a chave guardada no servidor proxy">
+            Via proxy
+          </Badge>
+        )}
+        {entries.length > 1 && (
+          <div className="flex items-center gap-2" title="Quando a cota de uma chave acaba, passa para a próxima">
+            <Switch id={`rotation-${provider.id}`} checked={rotation} onCheckedChange={changeRotation} />
+            <Label htmlFor={`rotation-${provider.id}`} className="text-xs">
+              Rotação automática
+            </Label>
+          </div>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setAdding((a) => !a)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Chave
+        </Button>
+        {provider.getApiKeyUrl && (
+          <Button variant="ghost" size="sm" title="Obter API key" onClick={() => window.open(provider.getApiKeyUrl, "_blank")}>
+            <ExternalLink className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {provider.keyFormat && (
+        <p className="text-xs text-muted-foreground pl-9">
+          {provider.keyFormat.hint} Formato: <span className="font-mono">{provider.keyFormat.placeholder}</span>
+        </p>
+      )}
+
+      <ul>
+        {entries.map((entry) => {
+          const slot = apiKeySlot(provider, entry.id);
+          return (
+            <KeyRow
+              key={entry.id}
+              provider={provider}
+              entry={entry}
+              check={checks[slot]}
+              usage={summarizeUsage(usage.filter((u) => u.keySlot === slot))}
+              revision={revision}
+              onChanged={onChanged}
+              onDelete={onDelete}
+            />
+          );
+        })}
+      </ul>
+
+      {adding && (
+        <form
+          className="flex gap-2 pl-9"
+          onSubmit={(e) => {
+            e.preventDefault();
+            add();
+          }}
+        >
+          <Input
+            className="max-w-[10rem]"
+            aria-label="Rótulo"
+            placeholder={`Chave ${entries.length + 1}`}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Input
+            type="password"
+            autoFocus
+            placeholder={provider.keyFormat?.placeholder ?? `Outra API key do ${provider.name}`}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={!value.trim()}>
+            Adicionar
+          </Button>
+        </form>
+      )}
+    </li>
+  );
+};
+
+const KeySettings = () => {
+  const { toast } = useToast();
+  const { status } = useKeyVault();
+  const scriptProviders = useProviders();
+  const [checks, setChecks] = useState(loadKeyChecks);
+  const [revision, bump] = useReducer((n: number) => n + 1, 0);
+  const [toDelete, setToDelete] = useState<DeleteTarget | null>(null);
+  const usage = useUsageEntries();
+
+  const groups = [
+    { title: "Roteiro", providers: scriptProviders },
+    { title: "Pesquisa", providers: [YOUTUBE_PROVIDER] },
+    { title: "Imagens", providers: [LEONARDO_PROVIDER, KLING_PROVIDER, MIDJOURNEY_PROVIDER] },
+    { title: "Áudio", providers: [ELEVENLABS_PROVIDER] },
+  ];
+
+  const changed = () => {
+    setChecks(loadKeyChecks());
+    bump();
+  };
+
+  const remove = async () => {
+    if (!toDelete) return;
+    const { provider, entry } = toDelete;
+    try {
+      await removeApiKey(provider, entry.id);
+      toast({ title: "API key excluída", description: `${provider.name} · ${entry.label}` });
+      changed();
+    } catch {
+      toast({ title: "API key não excluída", description: "Desbloqueie o cofre de chaves primeiro.", variant: "destructive" });
+    }
+    setToDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-dark p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/projects">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Projetos
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold bg-gradient-youtube bg-clip-text text-transparent">Chaves de API</h1>
+          <div className="ml-auto">
+            <KeyVaultButton />
+          </div>
+        </div>
+
+        {status !== "unlocked" && (
+          <Card className="shadow-dark">
+            <CardContent className="flex flex-wrap items-center gap-3 pt-6">
+              <Lock className="w-5 h-5" />
+              <p className="text-sm flex-1">
+                {status === "none"
+                  ? "As chaves ainda estão em texto puro neste navegador. Crie uma senha mestra para criptografá-las."
+                  : "O cofre está bloqueado. Desbloqueie para ver as chaves mascaradas e testá-las."}
+              </p>
+              <Button size="sm" onClick={() => requestUnlock()}>
+                {status === "none" ? "Criar senha mestra" : "Desbloquear"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <ProxySettingsCard onChanged={changed} />
+
+        {groups.map(({ title, providers }) => (
+          <Card key={title} className="shadow-dark">
+            <CardHeader>
+              <CardTitle>{title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {providers.map((provider) => (
+                  <ProviderKeys
+                    key={provider.id}
+                    provider={provider}
+                    checks={checks}
+                    usage={usage}
+                    revision={revision}
+                    onChanged={changed}
+                    onDelete={setToDelete}
+                  />
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir API key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A chave "{toDelete?.entry.label}" do {toDelete?.provider.name} será apagada deste navegador. Para usá-la de novo
+              será preciso colá-la outra vez.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={remove}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default KeySettings;
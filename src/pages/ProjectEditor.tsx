@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Project } from "@/types/project";
+import { getProject } from "@/lib/project-store";
+import { setVersions } from "@/lib/script-versions";
+import { ProjectWorkspace } from "@/components/project/ProjectWorkspace";
+
+const ProjectEditor = () => {
+  const { id = "" } = useParams();
+  const [project, setProject] = useState<Project | null | undefined>(undefined);
+
+  useEffect(() => {
+    let active = true;
+    setProject(undefined);
+    getProject(id).then(
+      (loaded) => {
+        if (!active) return;
+        // O histórico precisa estar carregado antes do ProjectWorkspace montar
+        setVersions(loaded?.versions ?? []);
+        setProject(loaded ?? null);
+      },
+      (error) => {
+        console.error(error);
+        if (active) setProject(null);
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [id]);
+
+  if (project === undefined) {
+    return (
+      <div className="min-h-screen bg-gradient-dark flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (project === null) {
+    return (
+      <div className="min-h-screen bg-gradient-dark flex items-center justify-center">
+        <div className="text-center space-y-2">
+          <p className="text-xl">Projeto não encontrado</p>
+          <Link to="/projects" className="text-primary hover:text-primary/80 underline">
+            Voltar aos projetos
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <ProjectWorkspace key={project.id} project={project} />;
+};
+
+export default ProjectEditor;
@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Download, FileText, KeyRound, Image as ImageIcon, Loader2, Package, Plus, Search, Trash2, Upload, Volume2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Project } from "@/types/project";
+import { createProject, deleteProject, duplicateProject, listProjects } from "@/lib/project-store";
+import { KeyVaultButton } from "@/components/vault/KeyVaultButton";
+import { bundleFileName, exportProjectBundle, importProjectBundle } from "@/lib/project-bundle";
+
+type SortKey = "updated" | "created" | "name";
+
+const SORTS: Record<SortKey, { label: string; compare: (a: Project, b: Project) => number }> = {
+  updated: { label: "Última alteração", compare: (a, b) => b.updatedAt - a.updatedAt },
+  created: { label: "Data de criação", compare: (a, b) => b.createdAt - a.createdAt },
+  name: { label: "Nome", compare: (a, b) => a.name.localeCompare(b.name, "pt-BR") },
+};
+
+const STAGE_LINKS = [
+  { path: "script", label: "Roteiro", icon: FileText },
+  { path: "images", label: "Imagens", icon: ImageIcon },
+  { path: "audio", label: "Áudio", icon: Volume2 },
+  { path: "export", label: "Exportar", icon: Package },
+];
+
+const matches = (project: Project, query: string) =>
+  [project.name, project.scriptData.topic].some((text) => text.toLowerCase().includes(query));
+
+const ProjectStatus = ({ project }: { project: Project }) => {
+  const ready = project.images.filter((item) => item.imageUrl).length;
+  return (
+    <div className="flex flex-wrap gap-1">
+      <Badge variant={project.script ? "default" : "outline"}>{project.script ? "Roteiro pronto" : "Sem roteiro"}</Badge>
+      <Badge variant={project.images.length > 0 && ready === project.images.length ? "default" : "outline"}>
+        Imagens {ready}/{project.images.length}
+      </Badge>
+      <Badge variant={project.audio ? "default" : "outline"}>{project.audio ? "Áudio pronto" : "Sem áudio"}</Badge>
+    </div>
+  );
+};
+
+const Projects = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [name, setName] = useState("");
+  const [toDelete, setToDelete] = useState<Project | null>(null);
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SortKey>("updated");
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (projects ?? []).filter((project) => matches(project, needle)).sort(SORTS[sort].compare);
+  }, [projects, query, sort]);
+
+  const reload = useCallback(
+    () =>
+      listProjects().then(setProjects, (error) => {
+        console.error(error);
+        setProjects([]);
+        toast({ title: "Falha ao carregar projetos", description: "O navegador bloqueou o IndexedDB.", variant: "destructive" });
+      }),
+    [toast]
+  );
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Cota cheia ou banco bloqueado por outra aba fazem o IndexedDB rejeitar a operação
+  const storageError = (title: string, error: unknown) => {
+    console.error(title, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "O navegador bloqueou o IndexedDB.",
+      variant: "destructive",
+    });
+  };
+
+  const create = async () => {
+    try {
+      const project = await createProject(name.trim() || "Projeto sem título");
+      navigate(`/projects/${project.id}/script`);
+    } catch (error) {
+      storageError("Falha ao criar projeto", error);
+    }
+  };
+
+  const duplicate = async (id: string) => {
+    try {
+      const copy = await duplicateProject(id);
+      toast({ title: "Projeto duplicado", description: copy.name });
+      reload();
+    } catch (error) {
+      storageError("Falha ao duplicar projeto", error);
+    }
+  };
+
+  const exportBundle = async (project: Project) => {
+    setExporting(project.id);
+    try {
+      const blob = await exportProjectBundle(project);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = bundleFileName(project);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      toast({ title: "Falha ao exportar", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const importBundle = async (file: File) => {
+    setImporting(true);
+    try {
+      const project = await importProjectBundle(file);
+      toast({ title: "Projeto importado", description: project.name });
+      reload();
+    } catch (error) {
+      console.error(error);
+      toast({ title: "Falha ao importar", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteProject(toDelete.id);
+      toast({ title: "Projeto excluído", description: toDelete.name });
+      reload();
+    } catch (error) {
+      storageError("Falha ao excluir projeto", error);
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-dark p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold bg-gradient-youtube bg-clip-text text-transparent">Projetos</h1>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/settings/keys">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Chaves de API
+              </Link>
+            </Button>
+            <KeyVaultButton />
+          </div>
+        </div>
+
+        <Card className="shadow-dark">
+          <CardHeader>
+            <CardTitle>Novo projeto</CardTitle>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              placeholder="Nome do projeto"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && create()}
+            />
+            <Button onClick={create}>
+              <Plus className="w-4 h-4 mr-2" />
+              Criar
+            </Button>
+            <Button variant="outline" disabled={importing} onClick={() => importRef.current?.click()}>
+              {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Importar
+            </Button>
+            <input
+              ref={importRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importBundle(file);
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-dark">
+          <CardHeader>
+            <CardTitle>Projetos salvos</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="relative flex-1">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  placeholder="Buscar por nome ou tópico"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <Select value={sort} onValueChange={(value) => setSort(value as SortKey)}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SORTS).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {projects === null ? (
+              <Loader2 className="w-5 h-5 animate-spin mx-auto" />
+            ) : projects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum projeto ainda. Crie um para começar.</p>
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum projeto encontrado para "{query}".</p>
+            ) : (
+              <ul className="divide-y">
+                {visible.map((project) => (
+                  <li key={project.id} className="py-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <Link to={`/projects/${project.id}/script`} className="font-medium hover:underline truncate block">
+                          {project.name}
+                        </Link>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {project.scriptData.topic || "Sem tópico"} · atualizado em{" "}
+                          {new Date(project.updatedAt).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Exportar pacote .zip"
+                        disabled={exporting === project.id}
+                        onClick={() => exportBundle(project)}
+                      >
+                        {exporting === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Duplicar" onClick={() => duplicate(project.id)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Excluir" onClick={() => setToDelete(project)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <ProjectStatus project={project} />
+                      <div className="flex gap-1 ml-auto">
+                        {STAGE_LINKS.map(({ path, label, icon: Icon }) => (
+                          <Button key={path} variant="outline" size="sm" asChild>
+                            <Link to={`/projects/${project.id}/${path}`}>
+                              <Icon className="w-3 h-3 mr-1" />
+                              {label}
+                            </Link>
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir projeto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{toDelete?.name}" será apagado deste navegador com roteiro, versões, imagens e áudio. Não é possível desfazer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={remove}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;
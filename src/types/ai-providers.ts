@@ -1,3 +1,69 @@
+import { claudeAdapter, geminiAdapter, openAICompatibleAdapter } from "@/components/ai/ProviderAdapters";
+
+// Preço em dólares por milhão de tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelOption {
+  id: string;
+  name: string;
+  maxOutputTokens: number;
+  pricing?: ModelPricing;
+}
+
+export interface GenerationParams {
+  model: string;
+  temperature: number;
+  topP: number;
+  maxTokens: number;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  // Instruções de sistema (perfil do canal), quando houver
+  system?: string;
+  params: GenerationParams;
+  stream?: boolean;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// GET barato (lista de modelos) usado só para conferir se a chave é aceita
+export interface KeyCheckRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export interface ProviderAdapter {
+  buildRequest: (apiKey: string, request: GenerationRequest) => ProviderHttpRequest;
+  // Sem keyCheck, a validação da chave faz uma geração mínima de 1 token
+  keyCheck?: (apiKey: string) => KeyCheckRequest;
+  parseResponse: (data: unknown) => string;
+  parseStreamEvent: (data: string) => string;
+  // Consumo informado pelo provider; no streaming cada evento pode trazer só parte dos campos
+  parseUsage: (data: unknown) => Partial<TokenUsage> | null;
+  parseStreamUsage: (data: string) => Partial<TokenUsage> | null;
+  mapError: (status: number, body: string, headers?: Headers) => Error;
+}
+
+// Para chaves que não são um token simples: como pedir e como conferir antes de salvar
+export interface ApiKeyFormat {
+  placeholder: string;
+  hint: string;
+  pattern: RegExp;
+}
+
 export interface AIProvider {
   id: string;
   name: string;
@@ -5,6 +71,10 @@ export interface AIProvider {
   endpoint: string;
   keyName: string;
   getApiKeyUrl: string;
+  apiKeyOptional?: boolean;
+  keyFormat?: ApiKeyFormat;
+  models?: ModelOption[];
+  adapter?: ProviderAdapter;
 }
 
 export const AI_PROVIDERS: AIProvider[] = [
@@ -14,7 +84,14 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🟢',
     endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent',
     keyName: 'gemini_api_key',
-    getApiKeyUrl: 'https://makersuite.google.com/app/apikey'
+    getApiKeyUrl: 'https://makersuite.google.com/app/apikey',
+    models: [
+      { id: 'gemini-pro', name: 'Gemini Pro', maxOutputTokens: 2048, pricing: { input: 0.5, output: 1.5 } },
+      { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', maxOutputTokens: 8192, pricing: { input: 0.075, output: 0.3 } },
+      { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', maxOutputTokens: 8192, pricing: { input: 1.25, output: 5 } },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', maxOutputTokens: 8192, pricing: { input: 0.1, output: 0.4 } }
+    ],
+    adapter: geminiAdapter({ name: 'Gemini' })
   },
   {
     id: 'openai',
@@ -22,7 +99,14 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🟡',
     endpoint: 'https://api.openai.com/v1/chat/completions',
     keyName: 'openai_api_key',
-    getApiKeyUrl: 'https://platform.openai.com/api-keys'
+    getApiKeyUrl: 'https://platform.openai.com/api-keys',
+    models: [
+      { id: 'gpt-4', name: 'GPT-4', maxOutputTokens: 4096, pricing: { input: 30, output: 60 } },
+      { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', maxOutputTokens: 4096, pricing: { input: 10, output: 30 } },
+      { id: 'gpt-4o', name: 'GPT-4o', maxOutputTokens: 16384, pricing: { input: 2.5, output: 10 } },
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini', maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6 } }
+    ],
+    adapter: openAICompatibleAdapter({ name: 'OpenAI', endpoint: 'https://api.openai.com/v1/chat/completions', streamUsage: true })
   },
   {
     id: 'claude',
@@ -30,7 +114,14 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🔵',
     endpoint: 'https://api.anthropic.com/v1/messages',
     keyName: 'claude_api_key',
-    getApiKeyUrl: 'https://console.anthropic.com/'
+    getApiKeyUrl: 'https://console.anthropic.com/',
+    models: [
+      { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', maxOutputTokens: 4096, pricing: { input: 3, output: 15 } },
+      { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', maxOutputTokens: 4096, pricing: { input: 15, output: 75 } },
+      { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', maxOutputTokens: 8192, pricing: { input: 3, output: 15 } },
+      { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', maxOutputTokens: 8192, pricing: { input: 0.8, output: 4 } }
+    ],
+    adapter: claudeAdapter({ name: 'Claude' })
   },
   {
     id: 'grok',
@@ -38,7 +129,12 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '⚫',
     endpoint: 'https://api.x.ai/v1/chat/completions',
     keyName: 'grok_api_key',
-    getApiKeyUrl: 'https://console.x.ai/'
+    getApiKeyUrl: 'https://console.x.ai/',
+    models: [
+      { id: 'grok-beta', name: 'Grok Beta', maxOutputTokens: 4096, pricing: { input: 5, output: 15 } },
+      { id: 'grok-2-1212', name: 'Grok 2', maxOutputTokens: 8192, pricing: { input: 2, output: 10 } }
+    ],
+    adapter: openAICompatibleAdapter({ name: 'Grok', endpoint: 'https://api.x.ai/v1/chat/completions', streamUsage: true })
   },
   {
     id: 'mistral',
@@ -46,7 +142,13 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🟣',
     endpoint: 'https://api.mistral.ai/v1/chat/completions',
     keyName: 'mistral_api_key',
-    getApiKeyUrl: 'https://console.mistral.ai/'
+    getApiKeyUrl: 'https://console.mistral.ai/',
+    models: [
+      { id: 'mistral-large-latest', name: 'Mistral Large', maxOutputTokens: 8192, pricing: { input: 2, output: 6 } },
+      { id: 'mistral-small-latest', name: 'Mistral Small', maxOutputTokens: 8192, pricing: { input: 0.2, output: 0.6 } },
+      { id: 'open-mistral-nemo', name: 'Mistral Nemo', maxOutputTokens: 8192, pricing: { input: 0.15, output: 0.15 } }
+    ],
+    adapter: openAICompatibleAdapter({ name: 'Mistral', endpoint: 'https://api.mistral.ai/v1/chat/completions' })
   },
   {
     id: 'deepseek',
@@ -54,7 +156,12 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🔴',
     endpoint: 'https://api.deepseek.com/v1/chat/completions',
     keyName: 'deepseek_api_key',
-    getApiKeyUrl: 'https://platform.deepseek.com/api_keys'
+    getApiKeyUrl: 'https://platform.deepseek.com/api_keys',
+    models: [
+      { id: 'deepseek-chat', name: 'DeepSeek Chat (V3)', maxOutputTokens: 8192, pricing: { input: 0.27, output: 1.1 } },
+      { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner (R1)', maxOutputTokens: 8192, pricing: { input: 0.55, output: 2.19 } }
+    ],
+    adapter: openAICompatibleAdapter({ name: 'DeepSeek', endpoint: 'https://api.deepseek.com/v1/chat/completions', streamUsage: true })
   },
   {
     id: 'perplexity',
@@ -62,7 +169,12 @@ export const AI_PROVIDERS: AIProvider[] = [
     icon: '🟠',
     endpoint: 'https://api.perplexity.ai/chat/completions',
     keyName: 'perplexity_api_key',
-    getApiKeyUrl: 'https://www.perplexity.ai/settings/api'
+    getApiKeyUrl: 'https://www.perplexity.ai/settings/api',
+    models: [
+      { id: 'llama-3.1-sonar-small-128k-online', name: 'Sonar Small Online', maxOutputTokens: 4096, pricing: { input: 0.2, output: 0.2 } },
+      { id: 'llama-3.1-sonar-large-128k-online', name: 'Sonar Large Online', maxOutputTokens: 4096, pricing: { input: 1, output: 1 } }
+    ],
+    adapter: openAICompatibleAdapter({ name: 'Perplexity', endpoint: 'https://api.perplexity.ai/chat/completions', listsModels: false })
   }
 ];
 
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { scriptSchema } from "@/types/script";
+import { promptTemplateSchema } from "@/types/prompt-template";
+
+export const BUNDLE_FORMAT = "gerador-roteiros/projeto";
+export const BUNDLE_VERSION = 2;
+
+// Campos ausentes num pacote ficam vazios em vez de invalidar a importação inteira
+export const scriptDataSchema = z.object({
+  topic: z.string().default(""),
+  duration: z.string().default(""),
+  style: z.string().default(""),
+  styleKeywords: z.string().default(""),
+  language: z.string().default(""),
+  niche: z.string().default(""),
+  subniche: z.string().default(""),
+  microniche: z.string().default(""),
+  nanoniche: z.string().default(""),
+  audience: z.string().default(""),
+  additionalInfo: z.string().default(""),
+  youtubeLink: z.string().default(""),
+  qualified: z.boolean().default(false),
+});
+
+export const scriptVersionSchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.number(),
+  origin: z.enum(["generation", "edit", "restore", "branch"]),
+  parentId: z.string().optional(),
+  branch: z.string().min(1),
+  script: scriptSchema,
+  scriptData: scriptDataSchema,
+  provider: z.string(),
+  model: z.string(),
+  note: z.string().optional(),
+});
+
+export const scriptTranslationSchema = z.object({
+  language: z.string().min(1),
+  script: scriptSchema,
+  sourceId: z.string(),
+  provider: z.string(),
+});
+
+// file aponta para o arquivo dentro do zip; url fica como referência quando a imagem não pôde ser baixada.
+// Vídeos entram só como link, pesados demais para o pacote
+export const bundleImageSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  prompt: z.string(),
+  file: z.string().optional(),
+  url: z.string().optional(),
+  videoUrl: z.string().optional(),
+});
+
+export const bundleAudioSchema = z.object({
+  file: z.string().min(1),
+  fileName: z.string().min(1),
+  language: z.string().default(""),
+  voiceId: z.string().optional(),
+  modelId: z.string().optional(),
+  createdAt: z.number(),
+});
+
+export const projectManifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.number(),
+  project: z.object({
+    name: z.string().min(1),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    scriptData: scriptDataSchema,
+    script: scriptSchema.nullable(),
+    versions: z.array(scriptVersionSchema).default([]),
+    headVersionId: z.string().optional(),
+    translations: z.array(scriptTranslationSchema).default([]),
+    images: z.array(bundleImageSchema).default([]),
+    audio: bundleAudioSchema.nullable().default(null),
+  }),
+  templates: z.array(promptTemplateSchema).default([]),
+});
+
+export type BundleImage = z.infer<typeof bundleImageSchema>;
+export type BundleAudio = z.infer<typeof bundleAudioSchema>;
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
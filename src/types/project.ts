@@ -0,0 +1,39 @@
+import { ScriptData } from "@/types/ai-providers";
+import { Script, ScriptTranslation } from "@/types/script";
+import { ScriptVersion } from "@/lib/script-versions";
+
+export interface ImageItem {
+  id: string;
+  title: string;
+  prompt: string;
+  imageUrl?: string;
+  // Clipe curto animado a partir da imagem
+  videoUrl?: string;
+}
+
+export interface ProjectAudio {
+  blob: Blob;
+  fileName: string;
+  language: string;
+  // Ausentes quando o áudio foi importado de um arquivo
+  voiceId?: string;
+  modelId?: string;
+  createdAt: number;
+}
+
+// Tudo que um vídeo precisa para ser retomado depois de recarregar a página
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  scriptData: ScriptData;
+  script: Script | null;
+  versions: ScriptVersion[];
+  headVersionId?: string;
+  translations: ScriptTranslation[];
+  images: ImageItem[];
+  audio: ProjectAudio | null;
+  // Chave escolhida para cada provider (id do provider → id da chave); ausente usa a principal
+  apiKeys?: Record<string, string>;
+}
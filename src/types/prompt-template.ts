@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const promptTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  body: z.string().min(1),
+  builtIn: z.boolean().optional(),
+});
+
+export const promptTemplateExportSchema = z.object({
+  version: z.literal(1),
+  templates: z.array(promptTemplateSchema),
+});
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+export type PromptTemplateExport = z.infer<typeof promptTemplateExportSchema>;
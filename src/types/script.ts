@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+export const scriptSegmentSchema = z.object({
+  narration: z.string(),
+  visualCues: z.array(z.string()).default([]),
+  estimatedSeconds: z.number().nonnegative().default(0),
+});
+
+export const scriptSectionSchema = scriptSegmentSchema.extend({
+  title: z.string().min(1),
+});
+
+export const scriptSchema = z.object({
+  title: z.string().default(""),
+  hook: scriptSegmentSchema,
+  intro: scriptSegmentSchema,
+  sections: z.array(scriptSectionSchema).min(1),
+  cta: scriptSegmentSchema,
+  outro: scriptSegmentSchema,
+});
+
+export type ScriptSegment = z.infer<typeof scriptSegmentSchema>;
+export type ScriptSection = z.infer<typeof scriptSectionSchema>;
+export type Script = z.infer<typeof scriptSchema>;
+
+export const outlineSectionSchema = z.object({
+  title: z.string().min(1),
+  start: z.string(),
+  end: z.string(),
+  summary: z.string().default(""),
+});
+
+export const outlineSchema = z.array(outlineSectionSchema).min(1);
+
+export type OutlineSection = z.infer<typeof outlineSectionSchema>;
+
+export type SectionStatus = "pending" | "generating" | "done" | "error";
+
+export interface LongFormSection extends OutlineSection {
+  content: string;
+  status: SectionStatus;
+  error?: string;
+}
+
+export const LONG_FORM_DURATIONS = ["45-60", "60+"];
+
+export function isLongForm(duration: string): boolean {
+  return LONG_FORM_DURATIONS.includes(duration);
+}
+
+// Versão traduzida de um roteiro; sourceId identifica o original de onde ela saiu
+export interface ScriptTranslation {
+  language: string;
+  script: Script;
+  sourceId: string;
+  provider: string;
+}